@@ -0,0 +1,153 @@
+/**
+ * Variant Backfill Cloud Run Job
+ * Generates the variants a device is missing, or the panorama slices a device group is missing,
+ * for the backfill specified by TARGET_BACKFILL_ID
+ * Triggered by the backend when a device is added, its geometry changes, or a group's arrangement changes
+ */
+
+import type { LayoutType } from "./db/types.ts";
+import type { DitherProfile } from "./processor/dither.ts";
+import type { SpanArrangement } from "./processor/panorama.ts";
+import { downloadSource, generateDeviceVariants, generatePanoramaVariants, type DeviceDimensions, type Variant } from "./processor/processor.ts";
+
+// Cloud Run Jobs environment variables
+const TARGET_BACKFILL_ID = process.env.TARGET_BACKFILL_ID;
+const GCS_BUCKET_NAME = process.env.GCS_BUCKET_NAME;
+const BACKEND_API_URL = process.env.BACKEND_API_URL;
+const BACKFILL_JOB_SECRET = process.env.BACKFILL_JOB_SECRET;
+
+// Blobs reported to the backend per progress call
+const PROGRESS_BATCH_SIZE = 10;
+
+type BackfillItem = {
+  blob_hash: string;
+  storage_path: string;
+  width: number;
+  height: number;
+  layouts?: LayoutType[]; // Device backfills only
+};
+
+type BackfillStartResponse = {
+  device?: {
+    id: string;
+    width: number;
+    height: number;
+    orientation: string;
+    gap: number;
+    layouts: Record<LayoutType, boolean>;
+    eink?: DitherProfile;
+  };
+  span?: SpanArrangement | null; // Panorama backfills
+  items: BackfillItem[];
+};
+
+type BackfillResult = {
+  blob_hash: string;
+  variants: Variant[];
+  error?: string;
+};
+
+async function post<T>(path: string, body?: unknown): Promise<T> {
+  const response = await fetch(`${BACKEND_API_URL}/api/backfill/${TARGET_BACKFILL_ID}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${BACKFILL_JOB_SECRET}`,
+    },
+    body: JSON.stringify(body ?? {}),
+  });
+
+  if (!response.ok) {
+    throw new Error(`POST ${path} failed: ${response.status} ${response.statusText}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Device dimensions limited to the layouts this blob is missing
+ */
+function missingLayouts(device: DeviceDimensions, item: BackfillItem): DeviceDimensions {
+  const layouts = item.layouts ?? [];
+  return {
+    ...device,
+    layouts: {
+      monotych: layouts.includes("monotych"),
+      diptych: layouts.includes("diptych"),
+      triptych: layouts.includes("triptych"),
+    },
+  };
+}
+
+/**
+ * Main entry point
+ */
+async function main() {
+  console.log(`🚀 Variant backfill starting`);
+
+  if (!TARGET_BACKFILL_ID) {
+    throw new Error("TARGET_BACKFILL_ID environment variable required");
+  }
+
+  if (!GCS_BUCKET_NAME) {
+    throw new Error("GCS_BUCKET_NAME environment variable required");
+  }
+
+  if (!BACKEND_API_URL) {
+    throw new Error("BACKEND_API_URL environment variable required");
+  }
+
+  if (!BACKFILL_JOB_SECRET) {
+    throw new Error("BACKFILL_JOB_SECRET environment variable required");
+  }
+
+  try {
+    const { device, span, items } = await post<BackfillStartResponse>("/start");
+    if (device) {
+      console.log(`   Device ${device.id} (${device.width}x${device.height}): ${items.length} image(s) to backfill`);
+    } else if (span) {
+      console.log(`   Group ${span.group_id} (${span.panels.length} panels): ${items.length} image(s) to backfill`);
+    }
+
+    let pending: BackfillResult[] = [];
+
+    for (const [index, item] of items.entries()) {
+      console.log(`\n🖼️  [${index + 1}/${items.length}] ${item.blob_hash}`);
+
+      try {
+        const original = await downloadSource(item.storage_path);
+        const variants = device
+          ? await generateDeviceVariants(original, item.width, item.height, item.blob_hash, missingLayouts(device, item), GCS_BUCKET_NAME)
+          : await generatePanoramaVariants(original, item.width, item.height, item.blob_hash, span!, GCS_BUCKET_NAME);
+        pending.push({ blob_hash: item.blob_hash, variants });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`   ❌ Failed: ${errorMessage}`);
+        pending.push({ blob_hash: item.blob_hash, variants: [], error: errorMessage });
+      }
+
+      if (pending.length >= PROGRESS_BATCH_SIZE || index === items.length - 1) {
+        await post("/progress", { results: pending });
+        pending = [];
+      }
+    }
+
+    await post("/complete");
+    console.log(`\n✨ Backfill complete`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`\n💥 Backfill failed: ${errorMessage}`);
+
+    try {
+      await post("/complete", { error: errorMessage });
+    } catch (reportError) {
+      console.error(`   ⚠️  Failed to report error to backend:`, reportError);
+    }
+
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
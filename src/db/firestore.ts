@@ -88,9 +88,18 @@ export const Collections = {
   DEVICE_VARIANTS: "device_variants",
   DEVICES: "devices",
   DEVICE_QUEUE_STATE: "device_queue_state",
+  DEVICE_QUEUE_CURSORS: "device_queue_cursors",
+  DEVICE_CREDENTIALS: "device_credentials",
+  DEVICE_GROUPS: "device_groups",
+  DEVICE_GROUP_QUEUES: "device_group_queues",
+  DISPLAY_HISTORY: "display_history",
+  DEVICE_TELEMETRY: "device_telemetry",
+  DEVICE_COMMANDS: "device_commands",
+  ALBUMS: "albums",
   AUTH_SESSIONS: "auth_sessions",
   PICKER_SESSIONS: "picker_sessions",
   FAILED_TASKS: "failed_tasks",
+  BACKFILL_JOBS: "backfill_jobs",
 } as const;
 
 /**
@@ -1,5 +1,6 @@
+import { FieldValue } from "@google-cloud/firestore";
 import { getFirestore, Collections } from "./firestore.ts";
-import type { Blob, Source, DeviceVariant, Device, DeviceQueueState, AuthSession, PickerSession, FailedTask } from "./types.ts";
+import type { Blob, Source, DeviceVariant, Device, DeviceQueueState, DeviceQueueCursor, DeviceCredential, DeviceGroup, DeviceGroupQueue, DeviceTelemetry, DeviceCommand, DisplayHistoryEntry, Album, AuthSession, PickerSession, FailedTask, LayoutType, VariantKind, BackfillJob } from "./types.ts";
 import { nowISO } from "./types.ts";
 
 /**
@@ -45,6 +46,16 @@ export async function createBlob(blob: Omit<Blob, "created_at">): Promise<void>
     });
 }
 
+/**
+ * Count all blobs
+ */
+export async function countBlobs(): Promise<number> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.BLOBS).count().get();
+
+  return snapshot.data().count;
+}
+
 /**
  * Update blob color data
  */
@@ -299,6 +310,75 @@ export async function countVariantsForBlob(blobHash: string): Promise<number> {
   return snapshot.data().count;
 }
 
+/**
+ * Count a device's variants of one layout at a given slot size
+ */
+export async function countDeviceVariants(deviceId: string, layoutType: LayoutType, width: number, height: number): Promise<number> {
+  const db = getFirestore();
+  const snapshot = await db
+    .collection(Collections.DEVICE_VARIANTS)
+    .where("device", "==", deviceId)
+    .where("layout_type", "==", layoutType)
+    .where("width", "==", width)
+    .where("height", "==", height)
+    .count()
+    .get();
+
+  return snapshot.data().count;
+}
+
+/**
+ * Get all variants generated for a device
+ */
+export async function getVariantsForDevice(deviceId: string): Promise<DeviceVariant[]> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.DEVICE_VARIANTS).where("device", "==", deviceId).get();
+
+  return snapshot.docs.map((doc) => doc.data() as DeviceVariant);
+}
+
+/**
+ * Get a device's variants of a layout for specific blobs
+ */
+export async function getDeviceVariantsForBlobs(deviceId: string, layoutType: VariantKind, blobHashes: string[]): Promise<DeviceVariant[]> {
+  const db = getFirestore();
+  const snapshot = await db
+    .collection(Collections.DEVICE_VARIANTS)
+    .where("device", "==", deviceId)
+    .where("layout_type", "==", layoutType)
+    .where("blob_hash", "in", blobHashes)
+    .get();
+
+  return snapshot.docs.map((doc) => doc.data() as DeviceVariant);
+}
+
+/**
+ * Get the panorama slices generated for a group's arrangement
+ */
+export async function getPanoramaVariantsForGroup(groupId: string): Promise<DeviceVariant[]> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.DEVICE_VARIANTS).where("group_id", "==", groupId).get();
+
+  return snapshot.docs.map((doc) => doc.data() as DeviceVariant);
+}
+
+/**
+ * Delete device variant records by ID
+ * Files are left in storage since devices of the same size share them
+ */
+export async function deleteDeviceVariants(ids: string[]): Promise<void> {
+  const db = getFirestore();
+
+  // Firestore batches hold up to 500 writes
+  for (let i = 0; i < ids.length; i += 500) {
+    const batch = db.batch();
+    for (const id of ids.slice(i, i + 500)) {
+      batch.delete(db.collection(Collections.DEVICE_VARIANTS).doc(id));
+    }
+    await batch.commit();
+  }
+}
+
 /**
  * Delete all variants for a blob
  */
@@ -393,14 +473,39 @@ export async function updateDeviceLastSeen(id: string): Promise<void> {
   });
 }
 
+/**
+ * Mark a heartbeat on a device, along with the version and poll interval it reported
+ */
+export async function updateDeviceHeartbeat(id: string, updates: Pick<Device, "version" | "poll_interval">): Promise<void> {
+  const db = getFirestore();
+  const now = nowISO();
+  await db
+    .collection(Collections.DEVICES)
+    .doc(id)
+    .update({
+      ...updates,
+      last_seen: now,
+      last_heartbeat: now,
+    });
+}
+
 /**
  * Delete a device
  */
 export async function deleteDevice(id: string): Promise<void> {
   const db = getFirestore();
 
-  // Manual cascade: delete device queue state
-  await db.collection(Collections.DEVICE_QUEUE_STATE).doc(id).delete();
+  // Manual cascade: delete device queue state, display history, telemetry, commands and credentials, and leave its group
+  await deleteDeviceQueueState(id);
+  await deleteDisplayHistory(id);
+  await deleteDeviceTelemetry(id);
+  await deleteDeviceCommands(id);
+  await db.collection(Collections.DEVICE_CREDENTIALS).doc(id).delete();
+
+  const device = await getDevice(id);
+  if (device?.group_id) {
+    await db.collection(Collections.DEVICE_GROUPS).doc(device.group_id).update({ device_ids: FieldValue.arrayRemove(id) });
+  }
 
   // Delete the device
   await db.collection(Collections.DEVICES).doc(id).delete();
@@ -423,27 +528,634 @@ export async function getDeviceQueueState(deviceId: string): Promise<DeviceQueue
 }
 
 /**
- * Update device queue state
+ * Get device queue cursor
+ */
+export async function getDeviceQueueCursor(deviceId: string): Promise<DeviceQueueCursor | undefined> {
+  const db = getFirestore();
+  const doc = await db.collection(Collections.DEVICE_QUEUE_CURSORS).doc(deviceId).get();
+
+  if (!doc.exists) {
+    return undefined;
+  }
+
+  return doc.data() as DeviceQueueCursor;
+}
+
+/**
+ * Replace a device's queue and reset its cursor atomically
+ * With `expectedQueueId`, only replaces when the cursor still points at that queue (null: has no cursor);
+ * returns false when another request regenerated first
+ */
+export async function replaceDeviceQueue(
+  deviceId: string,
+  queue: { queueId: string; queueData: string; length: number; position: number; validUntil?: string },
+  expectedQueueId?: string | null
+): Promise<boolean> {
+  return replaceDeviceQueues([{ deviceId, queue }], expectedQueueId === undefined ? undefined : { deviceId, queueId: expectedQueueId });
+}
+
+/**
+ * Replace several devices' queues and reset their cursors in one transaction
+ * With `expected`, only replaces when that device's cursor still points at the given queue (null: has no cursor);
+ * returns false when another request regenerated first
+ */
+export async function replaceDeviceQueues(
+  queues: { deviceId: string; queue: { queueId: string; queueData: string; length: number; position: number; validUntil?: string } }[],
+  expected?: { deviceId: string; queueId: string | null }
+): Promise<boolean> {
+  const db = getFirestore();
+
+  return await db.runTransaction(async (tx) => {
+    if (expected) {
+      const cursorDoc = await tx.get(db.collection(Collections.DEVICE_QUEUE_CURSORS).doc(expected.deviceId));
+      const current = cursorDoc.exists ? (cursorDoc.data() as DeviceQueueCursor).queue_id : null;
+      if (current !== expected.queueId) {
+        return false;
+      }
+    }
+
+    const updatedAt = nowISO();
+    for (const { deviceId, queue } of queues) {
+      tx.set(db.collection(Collections.DEVICE_QUEUE_STATE).doc(deviceId), {
+        device_id: deviceId,
+        queue_id: queue.queueId,
+        queue_data: queue.queueData,
+        updated_at: updatedAt,
+      });
+      tx.set(db.collection(Collections.DEVICE_QUEUE_CURSORS).doc(deviceId), {
+        device_id: deviceId,
+        queue_id: queue.queueId,
+        position: queue.position,
+        length: queue.length,
+        valid_until: queue.validUntil,
+        updated_at: updatedAt,
+      });
+    }
+    return true;
+  });
+}
+
+/**
+ * Atomically claim up to `count` positions from a device's queue
+ * Claims nothing once the queue is exhausted, past its valid_until or out of step with its cursor;
+ * while pinned, claims only the pinned item without advancing
+ * `queueId` is the cursor's queue, undefined when the device has no cursor
  */
-export async function updateDeviceQueueState(deviceId: string, queueData: string, currentIndex: number): Promise<void> {
+export async function advanceDeviceQueueCursor(
+  deviceId: string,
+  count: number
+): Promise<{ queueId?: string; queueData?: string; start: number; end: number; pinned?: boolean }> {
   const db = getFirestore();
-  await db.collection(Collections.DEVICE_QUEUE_STATE).doc(deviceId).set(
-    {
-      device_id: deviceId,
-      queue_data: queueData,
-      current_index: currentIndex,
+  const stateRef = db.collection(Collections.DEVICE_QUEUE_STATE).doc(deviceId);
+  const cursorRef = db.collection(Collections.DEVICE_QUEUE_CURSORS).doc(deviceId);
+
+  return await db.runTransaction(async (tx) => {
+    const [stateDoc, cursorDoc] = await tx.getAll(stateRef, cursorRef);
+    const state = stateDoc.exists ? (stateDoc.data() as DeviceQueueState) : undefined;
+    const cursor = cursorDoc.exists ? (cursorDoc.data() as DeviceQueueCursor) : undefined;
+
+    if (!state || !cursor || state.queue_id !== cursor.queue_id) {
+      return { queueId: cursor?.queue_id, start: 0, end: 0 };
+    }
+
+    // A pinned item is handed out again, even after the queue would have expired
+    if (cursor.pinned_position !== undefined) {
+      return { queueId: cursor.queue_id, queueData: state.queue_data, start: cursor.pinned_position, end: cursor.pinned_position + 1, pinned: true };
+    }
+
+    const expired = cursor.valid_until !== undefined && cursor.valid_until <= nowISO();
+    const start = cursor.position;
+    const end = expired ? start : Math.min(start + count, cursor.length);
+
+    if (end > start) {
+      tx.update(cursorRef, { position: end, updated_at: nowISO() });
+    }
+
+    return { queueId: cursor.queue_id, queueData: state.queue_data, start, end };
+  });
+}
+
+/**
+ * Move a device's cursor back so the next claim hands out earlier items again; also releases a pin
+ * Stops at the start of the current queue
+ */
+export async function rewindDeviceQueueCursor(deviceId: string, steps: number): Promise<boolean> {
+  const db = getFirestore();
+  const cursorRef = db.collection(Collections.DEVICE_QUEUE_CURSORS).doc(deviceId);
+
+  return await db.runTransaction(async (tx) => {
+    const cursorDoc = await tx.get(cursorRef);
+    if (!cursorDoc.exists) {
+      return false;
+    }
+
+    const cursor = cursorDoc.data() as DeviceQueueCursor;
+    tx.update(cursorRef, { position: Math.max(0, cursor.position - steps), pinned_position: FieldValue.delete(), updated_at: nowISO() });
+    return true;
+  });
+}
+
+/**
+ * Pin the item a device was last handed, or release the pin
+ * While pinned, claims keep returning that item and the cursor stays put
+ */
+export async function setDeviceQueuePin(deviceId: string, pinned: boolean): Promise<boolean> {
+  const db = getFirestore();
+  const cursorRef = db.collection(Collections.DEVICE_QUEUE_CURSORS).doc(deviceId);
+
+  return await db.runTransaction(async (tx) => {
+    const cursorDoc = await tx.get(cursorRef);
+    if (!cursorDoc.exists) {
+      return false;
+    }
+
+    const cursor = cursorDoc.data() as DeviceQueueCursor;
+    tx.update(cursorRef, {
+      pinned_position: pinned ? Math.max(0, Math.min(cursor.position, cursor.length) - 1) : FieldValue.delete(),
       updated_at: nowISO(),
-    },
-    { merge: true }
-  );
+    });
+    return true;
+  });
 }
 
 /**
- * Delete device queue state
+ * Delete device queue state and cursor
  */
 export async function deleteDeviceQueueState(deviceId: string): Promise<void> {
   const db = getFirestore();
-  await db.collection(Collections.DEVICE_QUEUE_STATE).doc(deviceId).delete();
+  await Promise.all([
+    db.collection(Collections.DEVICE_QUEUE_STATE).doc(deviceId).delete(),
+    db.collection(Collections.DEVICE_QUEUE_CURSORS).doc(deviceId).delete(),
+  ]);
+}
+
+// ========== Device Credential Operations ==========
+
+/**
+ * Get the credential record for a device
+ */
+export async function getDeviceCredential(deviceId: string): Promise<DeviceCredential | undefined> {
+  const db = getFirestore();
+  const doc = await db.collection(Collections.DEVICE_CREDENTIALS).doc(deviceId).get();
+
+  if (!doc.exists) {
+    return undefined;
+  }
+
+  return doc.data() as DeviceCredential;
+}
+
+/**
+ * Get credential records for every device, keyed by device ID
+ */
+export async function getAllDeviceCredentials(): Promise<Map<string, DeviceCredential>> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.DEVICE_CREDENTIALS).get();
+
+  return new Map(snapshot.docs.map((doc) => [doc.id, doc.data() as DeviceCredential]));
+}
+
+/**
+ * Replace the credential record for a device
+ */
+export async function setDeviceCredential(credential: DeviceCredential): Promise<void> {
+  const db = getFirestore();
+  await db.collection(Collections.DEVICE_CREDENTIALS).doc(credential.device_id).set(credential);
+}
+
+// ========== Display History Operations ==========
+
+/**
+ * Record blobs shown on a device
+ */
+export async function createDisplayHistoryEntries(entries: Omit<DisplayHistoryEntry, "id">[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const db = getFirestore();
+  const batch = db.batch();
+
+  for (const entry of entries) {
+    const id = crypto.randomUUID();
+    batch.set(db.collection(Collections.DISPLAY_HISTORY).doc(id), { ...entry, id });
+  }
+
+  await batch.commit();
+}
+
+/**
+ * Get display history for a device, most recent first
+ */
+export async function getDisplayHistory(deviceId: string, limit = 100): Promise<DisplayHistoryEntry[]> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.DISPLAY_HISTORY).where("device_id", "==", deviceId).orderBy("shown_at", "desc").limit(limit).get();
+
+  return snapshot.docs.map((doc) => doc.data() as DisplayHistoryEntry);
+}
+
+/**
+ * Delete all display history for a device
+ */
+export async function deleteDisplayHistory(deviceId: string): Promise<void> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.DISPLAY_HISTORY).where("device_id", "==", deviceId).get();
+
+  // Firestore batch limit is 500 operations
+  for (let i = 0; i < snapshot.docs.length; i += 500) {
+    const batch = db.batch();
+    snapshot.docs.slice(i, i + 500).forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+}
+
+// ========== Device Telemetry Operations ==========
+
+/**
+ * Record a heartbeat's telemetry
+ */
+export async function createDeviceTelemetry(entry: Omit<DeviceTelemetry, "id">): Promise<DeviceTelemetry> {
+  const db = getFirestore();
+  const id = crypto.randomUUID();
+  const record: DeviceTelemetry = { ...entry, id };
+
+  await db.collection(Collections.DEVICE_TELEMETRY).doc(id).set(record);
+
+  return record;
+}
+
+/**
+ * Get telemetry for a device, most recent first
+ */
+export async function getDeviceTelemetry(deviceId: string, limit = 100, since?: string): Promise<DeviceTelemetry[]> {
+  const db = getFirestore();
+  let query = db.collection(Collections.DEVICE_TELEMETRY).where("device_id", "==", deviceId);
+
+  if (since) {
+    query = query.where("reported_at", ">=", since);
+  }
+
+  const snapshot = await query.orderBy("reported_at", "desc").limit(limit).get();
+
+  return snapshot.docs.map((doc) => doc.data() as DeviceTelemetry);
+}
+
+/**
+ * Delete all telemetry for a device
+ */
+export async function deleteDeviceTelemetry(deviceId: string): Promise<void> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.DEVICE_TELEMETRY).where("device_id", "==", deviceId).get();
+
+  // Firestore batch limit is 500 operations
+  for (let i = 0; i < snapshot.docs.length; i += 500) {
+    const batch = db.batch();
+    snapshot.docs.slice(i, i + 500).forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+}
+
+// ========== Device Command Operations ==========
+
+/**
+ * Queue a command for a device
+ */
+export async function createDeviceCommand(command: Omit<DeviceCommand, "id" | "created_at">): Promise<DeviceCommand> {
+  const db = getFirestore();
+  const id = crypto.randomUUID();
+  const record: DeviceCommand = { ...command, id, created_at: nowISO() };
+
+  await db.collection(Collections.DEVICE_COMMANDS).doc(id).set(record);
+
+  return record;
+}
+
+/**
+ * Get a device's commands, most recent first
+ */
+export async function getDeviceCommands(deviceId: string, limit = 50): Promise<DeviceCommand[]> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.DEVICE_COMMANDS).where("device_id", "==", deviceId).orderBy("created_at", "desc").limit(limit).get();
+
+  return snapshot.docs.map((doc) => doc.data() as DeviceCommand);
+}
+
+/**
+ * Atomically claim a device's deliverable commands, oldest first, and mark them delivered
+ * Commands delivered before `redeliverBefore` but never acknowledged are handed out again
+ */
+export async function claimDeviceCommands(deviceId: string, redeliverBefore: string): Promise<DeviceCommand[]> {
+  const db = getFirestore();
+  const query = db
+    .collection(Collections.DEVICE_COMMANDS)
+    .where("device_id", "==", deviceId)
+    .where("status", "in", ["pending", "delivered"])
+    .orderBy("created_at", "asc");
+
+  return await db.runTransaction(async (tx) => {
+    const snapshot = await tx.get(query);
+    const now = nowISO();
+
+    const claimed = snapshot.docs
+      .map((doc) => doc.data() as DeviceCommand)
+      .filter((command) => command.deliver_until > now && (command.status === "pending" || command.delivered_at! < redeliverBefore));
+
+    for (const command of claimed) {
+      tx.update(db.collection(Collections.DEVICE_COMMANDS).doc(command.id), { status: "delivered", delivered_at: now });
+    }
+
+    return claimed.map((command) => ({ ...command, status: "delivered" as const, delivered_at: now }));
+  });
+}
+
+/**
+ * Record a device's acknowledgement; returns false when the command doesn't exist for this device
+ */
+export async function acknowledgeDeviceCommand(deviceId: string, id: string, error?: string): Promise<boolean> {
+  const db = getFirestore();
+  const ref = db.collection(Collections.DEVICE_COMMANDS).doc(id);
+  const doc = await ref.get();
+
+  if (!doc.exists || (doc.data() as DeviceCommand).device_id !== deviceId) {
+    return false;
+  }
+
+  await ref.update({ status: error ? "failed" : "acknowledged", acknowledged_at: nowISO(), error });
+  return true;
+}
+
+/**
+ * Delete all commands for a device
+ */
+export async function deleteDeviceCommands(deviceId: string): Promise<void> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.DEVICE_COMMANDS).where("device_id", "==", deviceId).get();
+
+  // Firestore batch limit is 500 operations
+  for (let i = 0; i < snapshot.docs.length; i += 500) {
+    const batch = db.batch();
+    snapshot.docs.slice(i, i + 500).forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+}
+
+// ========== Album Operations ==========
+
+/**
+ * Get album by ID
+ */
+export async function getAlbum(id: string): Promise<Album | undefined> {
+  const db = getFirestore();
+  const doc = await db.collection(Collections.ALBUMS).doc(id).get();
+
+  if (!doc.exists) {
+    return undefined;
+  }
+
+  return doc.data() as Album;
+}
+
+/**
+ * Get albums by IDs, skipping any that no longer exist
+ */
+export async function getAlbums(ids: string[]): Promise<Album[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const db = getFirestore();
+  const docs = await db.getAll(...ids.map((id) => db.collection(Collections.ALBUMS).doc(id)));
+
+  return docs.filter((doc) => doc.exists).map((doc) => doc.data() as Album);
+}
+
+/**
+ * Get all albums
+ */
+export async function getAllAlbums(): Promise<Album[]> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.ALBUMS).orderBy("name").get();
+  return snapshot.docs.map((doc) => doc.data() as Album);
+}
+
+/**
+ * Create an album
+ */
+export async function createAlbum(album: Omit<Album, "id" | "created_at" | "updated_at">): Promise<string> {
+  const db = getFirestore();
+  const id = crypto.randomUUID();
+  const now = nowISO();
+
+  await db
+    .collection(Collections.ALBUMS)
+    .doc(id)
+    .set({
+      ...album,
+      id,
+      created_at: now,
+      updated_at: now,
+    });
+
+  return id;
+}
+
+/**
+ * Update album details or replace its membership
+ */
+export async function updateAlbum(id: string, updates: Partial<Pick<Album, "name" | "description" | "blob_hashes">>): Promise<void> {
+  const db = getFirestore();
+  await db
+    .collection(Collections.ALBUMS)
+    .doc(id)
+    .update({
+      ...updates,
+      updated_at: nowISO(),
+    });
+}
+
+/**
+ * Add blobs to an album
+ */
+export async function addBlobsToAlbum(id: string, blobHashes: string[]): Promise<void> {
+  const db = getFirestore();
+  await db
+    .collection(Collections.ALBUMS)
+    .doc(id)
+    .update({
+      blob_hashes: FieldValue.arrayUnion(...blobHashes),
+      updated_at: nowISO(),
+    });
+}
+
+/**
+ * Remove blobs from an album
+ */
+export async function removeBlobsFromAlbum(id: string, blobHashes: string[]): Promise<void> {
+  const db = getFirestore();
+  await db
+    .collection(Collections.ALBUMS)
+    .doc(id)
+    .update({
+      blob_hashes: FieldValue.arrayRemove(...blobHashes),
+      updated_at: nowISO(),
+    });
+}
+
+/**
+ * Delete an album and unassign it from devices
+ */
+export async function deleteAlbum(id: string): Promise<void> {
+  const db = getFirestore();
+
+  // Manual cascade: remove album from device assignments
+  const devices = await db.collection(Collections.DEVICES).where("albums", "array-contains", id).get();
+
+  const batch = db.batch();
+  devices.docs.forEach((doc) => batch.update(doc.ref, { albums: FieldValue.arrayRemove(id) }));
+  batch.delete(db.collection(Collections.ALBUMS).doc(id));
+  await batch.commit();
+}
+
+// ========== Device Group Operations ==========
+
+/**
+ * Get device group by ID
+ */
+export async function getDeviceGroup(id: string): Promise<DeviceGroup | undefined> {
+  const db = getFirestore();
+  const doc = await db.collection(Collections.DEVICE_GROUPS).doc(id).get();
+
+  if (!doc.exists) {
+    return undefined;
+  }
+
+  return doc.data() as DeviceGroup;
+}
+
+/**
+ * Get all device groups
+ */
+export async function getAllDeviceGroups(): Promise<DeviceGroup[]> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.DEVICE_GROUPS).orderBy("name").get();
+  return snapshot.docs.map((doc) => doc.data() as DeviceGroup);
+}
+
+/**
+ * Create a device group, moving its members out of any group they were in
+ */
+export async function createDeviceGroup(group: Omit<DeviceGroup, "id" | "created_at" | "updated_at">): Promise<string> {
+  const id = crypto.randomUUID();
+  const now = nowISO();
+
+  await writeDeviceGroup({ ...group, id, created_at: now, updated_at: now }, []);
+
+  return id;
+}
+
+/**
+ * Update a device group's settings or membership
+ */
+export async function updateDeviceGroup(
+  id: string,
+  updates: Partial<Pick<DeviceGroup, "name" | "device_ids" | "mode" | "slide_seconds">> & { arrangement?: string | null }
+): Promise<void> {
+  const existing = await getDeviceGroup(id);
+  if (!existing) {
+    throw new Error(`Device group not found: ${id}`);
+  }
+
+  // Fields left undefined keep their value; a null arrangement removes it
+  const { arrangement, ...fields } = updates;
+  const group: DeviceGroup = { ...existing, ...Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)), updated_at: nowISO() };
+  if (arrangement === null) {
+    delete group.arrangement;
+  } else if (arrangement !== undefined) {
+    group.arrangement = arrangement;
+  }
+
+  await writeDeviceGroup(group, existing.device_ids);
+}
+
+/**
+ * Write a group and keep each member's group_id in step, in one batch
+ * A device belongs to one group at a time
+ */
+async function writeDeviceGroup(group: DeviceGroup, previousDeviceIds: string[]): Promise<void> {
+  const db = getFirestore();
+  const batch = db.batch();
+
+  for (const deviceId of previousDeviceIds.filter((deviceId) => !group.device_ids.includes(deviceId))) {
+    batch.update(db.collection(Collections.DEVICES).doc(deviceId), { group_id: FieldValue.delete() });
+  }
+
+  const members = group.device_ids.length > 0 ? await db.getAll(...group.device_ids.map((deviceId) => db.collection(Collections.DEVICES).doc(deviceId))) : [];
+  for (const member of members) {
+    const otherGroupId = (member.data() as Device | undefined)?.group_id;
+    if (otherGroupId && otherGroupId !== group.id) {
+      batch.update(db.collection(Collections.DEVICE_GROUPS).doc(otherGroupId), { device_ids: FieldValue.arrayRemove(member.id) });
+    }
+    batch.update(member.ref, { group_id: group.id });
+  }
+
+  batch.set(db.collection(Collections.DEVICE_GROUPS).doc(group.id), group);
+  await batch.commit();
+}
+
+/**
+ * Delete a device group; members go back to playing on their own
+ */
+export async function deleteDeviceGroup(id: string): Promise<void> {
+  const db = getFirestore();
+
+  // Manual cascade: clear group_id on members, drop the group queue and its panorama slices
+  const devices = await db.collection(Collections.DEVICES).where("group_id", "==", id).get();
+  const panoramas = await getPanoramaVariantsForGroup(id);
+
+  const batch = db.batch();
+  devices.docs.forEach((doc) => batch.update(doc.ref, { group_id: FieldValue.delete() }));
+  batch.delete(db.collection(Collections.DEVICE_GROUP_QUEUES).doc(id));
+  batch.delete(db.collection(Collections.DEVICE_GROUPS).doc(id));
+  await batch.commit();
+
+  await deleteDeviceVariants(panoramas.map((variant) => variant.id));
+}
+
+/**
+ * Get a group's shared (lockstep) queue
+ */
+export async function getDeviceGroupQueue(groupId: string): Promise<DeviceGroupQueue | undefined> {
+  const db = getFirestore();
+  const doc = await db.collection(Collections.DEVICE_GROUP_QUEUES).doc(groupId).get();
+
+  if (!doc.exists) {
+    return undefined;
+  }
+
+  return doc.data() as DeviceGroupQueue;
+}
+
+/**
+ * Replace a group's shared queue
+ * With `expectedQueueId`, only replaces when the stored queue is still that one (null: none stored);
+ * returns false when another member regenerated first
+ */
+export async function replaceDeviceGroupQueue(queue: Omit<DeviceGroupQueue, "updated_at">, expectedQueueId?: string | null): Promise<boolean> {
+  const db = getFirestore();
+  const ref = db.collection(Collections.DEVICE_GROUP_QUEUES).doc(queue.group_id);
+
+  return await db.runTransaction(async (tx) => {
+    if (expectedQueueId !== undefined) {
+      const doc = await tx.get(ref);
+      const current = doc.exists ? (doc.data() as DeviceGroupQueue).queue_id : null;
+      if (current !== expectedQueueId) {
+        return false;
+      }
+    }
+
+    tx.set(ref, { ...queue, updated_at: nowISO() });
+    return true;
+  });
 }
 
 // ========== Auth Session Operations ==========
@@ -660,6 +1372,86 @@ export async function deleteFailedTask(id: string): Promise<void> {
   await db.collection(Collections.FAILED_TASKS).doc(id).delete();
 }
 
+// ========== Backfill Job Operations ==========
+
+/**
+ * Create a backfill job record
+ */
+export async function createBackfillJob(job: Omit<BackfillJob, "id" | "created_at" | "updated_at">): Promise<BackfillJob> {
+  const db = getFirestore();
+  const id = crypto.randomUUID();
+  const now = nowISO();
+  const record: BackfillJob = { ...job, id, created_at: now, updated_at: now };
+
+  await db.collection(Collections.BACKFILL_JOBS).doc(id).set(record);
+
+  return record;
+}
+
+/**
+ * Get a backfill job by ID
+ */
+export async function getBackfillJob(id: string): Promise<BackfillJob | undefined> {
+  const db = getFirestore();
+  const doc = await db.collection(Collections.BACKFILL_JOBS).doc(id).get();
+
+  if (!doc.exists) {
+    return undefined;
+  }
+
+  return doc.data() as BackfillJob;
+}
+
+/**
+ * Get the most recent backfill job for a device
+ */
+export async function getLatestBackfillJob(deviceId: string): Promise<BackfillJob | undefined> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.BACKFILL_JOBS).where("device_id", "==", deviceId).orderBy("created_at", "desc").limit(1).get();
+
+  return snapshot.empty ? undefined : (snapshot.docs[0].data() as BackfillJob);
+}
+
+/**
+ * Get the most recent panorama backfill job for a device group
+ */
+export async function getLatestGroupBackfillJob(groupId: string): Promise<BackfillJob | undefined> {
+  const db = getFirestore();
+  const snapshot = await db.collection(Collections.BACKFILL_JOBS).where("group_id", "==", groupId).orderBy("created_at", "desc").limit(1).get();
+
+  return snapshot.empty ? undefined : (snapshot.docs[0].data() as BackfillJob);
+}
+
+/**
+ * Update a backfill job
+ */
+export async function updateBackfillJob(id: string, updates: Partial<Omit<BackfillJob, "id" | "created_at">>): Promise<void> {
+  const db = getFirestore();
+  await db
+    .collection(Collections.BACKFILL_JOBS)
+    .doc(id)
+    .update({
+      ...updates,
+      updated_at: nowISO(),
+    });
+}
+
+/**
+ * Add to a backfill job's progress counters
+ */
+export async function incrementBackfillProgress(id: string, progress: { processed: number; failed: number; variants_created: number }): Promise<void> {
+  const db = getFirestore();
+  await db
+    .collection(Collections.BACKFILL_JOBS)
+    .doc(id)
+    .update({
+      processed: FieldValue.increment(progress.processed),
+      failed: FieldValue.increment(progress.failed),
+      variants_created: FieldValue.increment(progress.variants_created),
+      updated_at: nowISO(),
+    });
+}
+
 // ========== Utility Operations ==========
 
 /**
@@ -676,6 +1468,15 @@ export async function deleteBlob(hash: string): Promise<void> {
   variants.docs.forEach((doc) => batch.delete(doc.ref));
   await batch.commit();
 
+  // Remove blob from any albums it belongs to
+  const albums = await db.collection(Collections.ALBUMS).where("blob_hashes", "array-contains", hash).get();
+
+  const albumBatch = db.batch();
+  albums.docs.forEach((doc) => {
+    albumBatch.update(doc.ref, { blob_hashes: FieldValue.arrayRemove(hash) });
+  });
+  await albumBatch.commit();
+
   // Update sources that reference this blob (set blob_hash to null)
   const sources = await db.collection(Collections.SOURCES).where("blob_hash", "==", hash).get();
 
@@ -1,5 +1,9 @@
 import { Timestamp } from "@google-cloud/firestore";
 import type { AIAnalysis } from "../services/ai";
+import type { CommandType } from "../services/device-commands";
+import type { GroupMode } from "../services/device-groups";
+import type { QueueMode } from "../services/memories";
+import type { QueueStrategyName } from "../services/queue-strategies";
 
 /**
  * TypeScript types for Firestore documents
@@ -20,7 +24,17 @@ export type Blob = {
   color_palette?: string; // JSON string
   color_source?: string;
   blurhash?: string;
-  exif_data?: string; // JSON string
+  exif_data?: string; // JSON string (legacy raw EXIF)
+  taken_at?: string; // ISO 8601 capture time, local to where it was taken
+  taken_at_source?: "exif" | "google_photos";
+  camera_make?: string;
+  camera_model?: string;
+  lens_model?: string;
+  gps?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  };
   created_at: string; // ISO timestamp
   title?: string;
   description?: string;
@@ -34,6 +48,9 @@ export type Source = {
   blob_hash?: string;
   origin: "google_photos" | "upload" | "url";
   external_id?: string;
+  external_created_at?: string; // Capture time reported by the origin (Google Photos createTime)
+  camera_make?: string;
+  camera_model?: string;
   status: "staged" | "processing" | "ready" | "failed";
   status_message?: string;
   staging_path?: string;
@@ -42,6 +59,8 @@ export type Source = {
 };
 
 export type LayoutType = "monotych" | "diptych" | "triptych";
+export type VariantKind = LayoutType | "panorama"; // Panorama variants are one device's slice of an image spanning a group
+export type VariantFormat = "jpeg" | "png" | "packed"; // packed: raw palette indices for e-ink panels
 export type Orientation = "portrait" | "landscape" | "square";
 
 export type DeviceVariant = {
@@ -51,7 +70,10 @@ export type DeviceVariant = {
   width: number;
   height: number;
   orientation: Orientation;
-  layout_type: LayoutType;
+  layout_type: VariantKind;
+  group_id?: string; // Panorama variants: the group whose arrangement they were sliced for
+  format?: VariantFormat; // Absent for JPEG
+  profile?: string; // E-ink variants: key of the dither profile they were made with
   storage_path: string;
   file_size?: number;
   processed_at: string; // ISO timestamp
@@ -66,18 +88,123 @@ export type Device = {
   layouts?: string; // JSON string
   gap: number;
   capabilities?: string; // JSON string
+  queue_strategy?: QueueStrategyName;
+  queue_mode?: QueueMode;
+  layout_weights?: string; // JSON string
+  color_flow?: number; // 0 (pure shuffle) to 1 (strict color gradient)
+  no_repeat_slides?: number; // Slides before an image may be shown again
+  no_repeat_hours?: number; // Hours before an image may be shown again
+  albums?: string[]; // Album IDs; empty means every image
+  timezone?: string; // IANA time zone, e.g. "America/Toronto"
+  schedule_rules?: string; // JSON string
+  slide_seconds?: number; // How long each slide stays up when not in a lockstep group
+  overlays?: string; // JSON string: widgets drawn over composited frames
+  display_schedule?: string; // JSON string: quiet hours, brightness and slide interval periods
+  group_id?: string; // DeviceGroup this device plays with
   version?: string;
+  poll_interval?: number; // Seconds between heartbeats the device promises
   created_at: string; // ISO timestamp
   last_seen?: string; // ISO timestamp
+  last_heartbeat?: string; // ISO timestamp
 };
 
 export type DeviceQueueState = {
   device_id: string; // Document ID
+  queue_id?: string; // Generation the cursor refers to
   queue_data: string; // JSON string
-  current_index: number;
+  current_index?: number; // Legacy, position now lives in DeviceQueueCursor
   updated_at: string; // ISO timestamp
 };
 
+export type DeviceQueueCursor = {
+  device_id: string; // Document ID
+  queue_id: string;
+  position: number; // Index of the next item to hand out
+  length: number;
+  valid_until?: string; // ISO timestamp after which the queue must be regenerated
+  pinned_position?: number; // Set while the device is pinned: this item is handed out again instead of advancing
+  updated_at: string; // ISO timestamp
+};
+
+export type DeviceGroup = {
+  id: string; // Document ID
+  name: string;
+  device_ids: string[]; // Members; the first one's settings drive the group queue
+  mode: GroupMode;
+  slide_seconds: number; // Lockstep: how long each slide stays up
+  arrangement?: string; // JSON string, PanelPlacement[]; lockstep groups mounted side by side can span panoramas
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+};
+
+export type DeviceGroupQueue = {
+  group_id: string; // Document ID
+  queue_id: string;
+  queue_data: string; // JSON string
+  started_at: string; // ISO timestamp of slide 0
+  slide_seconds: number;
+  length: number;
+  valid_until?: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+};
+
+export type DeviceCredential = {
+  device_id: string; // Document ID
+  secret?: string; // Encrypted device token; removed on revocation
+  issued_at?: string; // ISO timestamp
+  revoked_at?: string; // ISO timestamp
+};
+
+export type Album = {
+  id: string; // Document ID
+  name: string;
+  description?: string;
+  blob_hashes: string[];
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+};
+
+export type DisplayHistoryEntry = {
+  id: string; // Document ID
+  device_id: string;
+  blob_hash: string;
+  layout_type: VariantKind;
+  shown_at: string; // ISO timestamp
+  expire_at: Timestamp; // Firestore TTL removes the entry after this
+};
+
+export type DeviceTelemetry = {
+  id: string; // Document ID
+  device_id: string;
+  reported_at: string; // ISO timestamp
+  version?: string;
+  uptime_seconds?: number;
+  free_heap?: number; // Bytes
+  wifi_rssi?: number; // dBm
+  battery?: {
+    percent?: number;
+    voltage?: number;
+    charging?: boolean;
+  };
+  current_image?: string; // Blob hash on screen
+  last_error?: string;
+  restarted: boolean; // Uptime went backwards since the previous heartbeat
+  expire_at: Timestamp; // Firestore TTL removes the entry after this
+};
+
+export type DeviceCommand = {
+  id: string; // Document ID
+  device_id: string;
+  type: CommandType;
+  status: "pending" | "delivered" | "acknowledged" | "failed";
+  created_at: string; // ISO timestamp
+  deliver_until: string; // ISO timestamp; undelivered commands are dropped after this
+  delivered_at?: string; // ISO timestamp
+  acknowledged_at?: string; // ISO timestamp
+  error?: string; // Reported by the device when it couldn't carry the command out
+  expire_at: Timestamp; // Firestore TTL removes the command after this
+};
+
 export type AuthSession = {
   id: string; // Document ID
   user_id: string;
@@ -112,6 +239,23 @@ export type FailedTask = {
   created_at: string; // ISO timestamp
 };
 
+export type BackfillJob = {
+  id: string; // Document ID
+  device_id?: string; // Set for device backfills
+  group_id?: string; // Set for panorama backfills
+  status: "queued" | "running" | "completed" | "failed";
+  total: number; // Blobs with at least one missing variant
+  processed: number; // Blobs handled so far, including failures
+  failed: number;
+  variants_created: number;
+  variants_removed: number; // Variants dropped because they no longer match the device or arrangement
+  secret_hash?: string; // SHA-256 of the secret the job's container authenticates its callbacks with
+  error_message?: string;
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+  finished_at?: string; // ISO timestamp
+};
+
 /**
  * Helper to convert Firestore Timestamp to ISO string
  */
@@ -7,6 +7,7 @@ import {
   updateSessionTokens,
 } from "../services/auth.ts";
 import type { UserSession } from "../services/auth.ts";
+import { verifyDeviceSignature, verifyDeviceToken } from "../services/device-credentials.ts";
 
 /**
  * Middleware to require authentication for protected routes
@@ -80,6 +81,53 @@ export async function requireAuth(c: Context, next: Next) {
   await next();
 }
 
+/**
+ * Whether a request presents device credentials at all, valid or not
+ */
+export function hasDeviceCredentials(c: Context): boolean {
+  return !!c.req.header("Authorization") || !!c.req.header("X-Device-Signature");
+}
+
+/**
+ * Check a request's credentials against a device
+ * Accepts "Authorization: Bearer <token>", or X-Device-Timestamp (Unix seconds) with X-Device-Signature,
+ * the hex HMAC-SHA256 of "METHOD\npath\ntimestamp" keyed with the token
+ */
+export async function verifyDeviceRequest(c: Context, deviceId: string): Promise<boolean> {
+  const authorization = c.req.header("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return verifyDeviceToken(deviceId, authorization.slice("Bearer ".length).trim());
+  }
+
+  const signature = c.req.header("X-Device-Signature");
+  const timestamp = c.req.header("X-Device-Timestamp");
+  if (signature && timestamp) {
+    return verifyDeviceSignature(deviceId, c.req.method, c.req.path, timestamp, signature);
+  }
+
+  return false;
+}
+
+/**
+ * Middleware to require device credentials for the :deviceId in the route
+ * Requests without device credentials fall back to an admin session, so the UI can still read device routes
+ */
+export async function requireDeviceAuth(c: Context, next: Next) {
+  if (!hasDeviceCredentials(c)) {
+    return requireAuth(c, next);
+  }
+
+  const deviceId = c.req.param("deviceId");
+  if (!deviceId || !(await verifyDeviceRequest(c, deviceId))) {
+    console.log(`🔒 Invalid device credentials for ${deviceId} - returning 401`);
+    return c.json({ error: "Invalid device credentials" }, 401);
+  }
+
+  c.set("deviceId", deviceId);
+
+  await next();
+}
+
 /**
  * Middleware to optionally check authentication without requiring it
  * Does not redirect, just attaches session if available
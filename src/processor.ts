@@ -8,6 +8,8 @@ import { Storage, File } from "@google-cloud/storage";
 import { Buffer } from "node:buffer";
 import sharp from "sharp";
 import { processSourceV2 } from "./processor.ts";
+import type { DitherProfile } from "./processor/dither.ts";
+import type { SpanArrangement } from "./processor/panorama.ts";
 
 const storage = new Storage();
 
@@ -25,7 +27,14 @@ type ProcessingStartResponse = {
     height: number;
     orientation: string;
     gap: number;
+    layouts?: {
+      monotych: boolean;
+      diptych: boolean;
+      triptych: boolean;
+    };
+    eink?: DitherProfile;
   }>;
+  spans?: SpanArrangement[];
   source: {
     id: string;
     staging_path: string;
@@ -268,8 +277,10 @@ async function main() {
         height: d.height,
         gap: d.gap,
         orientation: d.orientation,
-        layouts: { monotych: true, diptych: true },
+        layouts: d.layouts ?? { monotych: true, diptych: true, triptych: false },
+        eink: d.eink,
       })),
+      spans: startResponse.spans ?? [],
       bucketName: GCS_BUCKET_NAME,
       backendApiUrl: BACKEND_API_URL || "",
       checkBlobExists,
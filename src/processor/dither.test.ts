@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bitsPerPixel, packIndices } from "./dither.ts";
+
+// Packed output is read by panel firmware, so these bytes are part of the wire format
+describe("bitsPerPixel", () => {
+  it("uses the fewest bits that hold the palette", () => {
+    assert.equal(bitsPerPixel(2), 1);
+    assert.equal(bitsPerPixel(3), 2);
+    assert.equal(bitsPerPixel(4), 2);
+    assert.equal(bitsPerPixel(6), 4);
+    assert.equal(bitsPerPixel(7), 4);
+  });
+});
+
+describe("packIndices", () => {
+  it("packs 1 bit per pixel, padding each row to a byte", () => {
+    const indices = Uint8Array.from([1, 0, 1, 1, 0, 0, 1, 0, 1, 1, 0, 0, 0, 0, 0, 0, 0, 1, 0, 1]);
+    assert.deepEqual([...packIndices(indices, 10, 2, 1)], [0xb2, 0xc0, 0x01, 0x40]);
+  });
+
+  it("packs 2 bits per pixel, padding each row to a byte", () => {
+    const indices = Uint8Array.from([3, 2, 1, 0, 1, 0, 1, 2, 3, 2]);
+    assert.deepEqual([...packIndices(indices, 5, 2, 2)], [0xe4, 0x40, 0x1b, 0x80]);
+  });
+
+  it("packs 4 bits per pixel, padding each row to a byte", () => {
+    const indices = Uint8Array.from([15, 1, 6, 2, 0, 9]);
+    assert.deepEqual([...packIndices(indices, 3, 2, 4)], [0xf1, 0x60, 0x20, 0x90]);
+  });
+});
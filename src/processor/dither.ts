@@ -0,0 +1,161 @@
+/**
+ * E-ink dithering
+ * Reduces a variant to an e-ink panel's few colors with error diffusion, matching against the colors
+ * the panel actually shows so the result looks right on the glass rather than on a monitor
+ */
+
+import { Buffer } from "node:buffer";
+import sharp from "sharp";
+
+export type DitherProfile = {
+  key: string;
+  palette: "bw" | "gray4" | "spectra6" | "acep7";
+  colors: string[]; // Nominal panel colors, written to the output
+  measured: string[]; // What the panel shows for each color
+  dither: "floyd-steinberg" | "atkinson";
+  contrast: number;
+  saturation: number;
+  output: "png" | "packed";
+};
+
+export type DitheredImage = {
+  buffer: Buffer;
+  extension: "png" | "bin";
+  contentType: string;
+};
+
+type Rgb = [number, number, number];
+
+// Where each diffusion kernel sends the error, relative to the current pixel
+const KERNELS: Record<DitherProfile["dither"], Array<{ dx: number; dy: number; weight: number }>> = {
+  "floyd-steinberg": [
+    { dx: 1, dy: 0, weight: 7 / 16 },
+    { dx: -1, dy: 1, weight: 3 / 16 },
+    { dx: 0, dy: 1, weight: 5 / 16 },
+    { dx: 1, dy: 1, weight: 1 / 16 },
+  ],
+  // Spreads only 6/8 of the error, trading smooth gradients for contrast
+  atkinson: [
+    { dx: 1, dy: 0, weight: 1 / 8 },
+    { dx: 2, dy: 0, weight: 1 / 8 },
+    { dx: -1, dy: 1, weight: 1 / 8 },
+    { dx: 0, dy: 1, weight: 1 / 8 },
+    { dx: 1, dy: 1, weight: 1 / 8 },
+    { dx: 0, dy: 2, weight: 1 / 8 },
+  ],
+};
+
+function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.replace(/^#/, ""), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Bits per pixel in packed output: 1 for two colors, 2 for four, 4 for the color panels
+ */
+export function bitsPerPixel(colorCount: number): 1 | 2 | 4 {
+  return colorCount <= 2 ? 1 : colorCount <= 4 ? 2 : 4;
+}
+
+/**
+ * Map RGB pixels to palette indices, diffusing each pixel's error onto its unvisited neighbours
+ */
+export function ditherPixels(pixels: Uint8Array, width: number, height: number, palette: Rgb[], method: DitherProfile["dither"]): Uint8Array {
+  const work = Float32Array.from(pixels);
+  const indices = new Uint8Array(width * height);
+  const kernel = KERNELS[method];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 3;
+      // Clamp so error piling up in areas the palette can't reach doesn't bleed across the image
+      const r = Math.min(255, Math.max(0, work[offset]));
+      const g = Math.min(255, Math.max(0, work[offset + 1]));
+      const b = Math.min(255, Math.max(0, work[offset + 2]));
+
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let index = 0; index < palette.length; index++) {
+        const [pr, pg, pb] = palette[index];
+        const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+        if (distance < bestDistance) {
+          best = index;
+          bestDistance = distance;
+        }
+      }
+      indices[y * width + x] = best;
+
+      const [pr, pg, pb] = palette[best];
+      for (const { dx, dy, weight } of kernel) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny >= height) {
+          continue;
+        }
+        const target = (ny * width + nx) * 3;
+        work[target] += (r - pr) * weight;
+        work[target + 1] += (g - pg) * weight;
+        work[target + 2] += (b - pb) * weight;
+      }
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Pack palette indices most significant bits first, each row starting on a byte boundary
+ */
+export function packIndices(indices: Uint8Array, width: number, height: number, bits: 1 | 2 | 4): Buffer {
+  const rowBytes = Math.ceil((width * bits) / 8);
+  const packed = Buffer.alloc(rowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bit = x * bits;
+      packed[y * rowBytes + (bit >> 3)] |= indices[y * width + x] << (8 - bits - (bit & 7));
+    }
+  }
+
+  return packed;
+}
+
+/**
+ * Crop an image to a slot and dither it for a panel
+ * Contrast and saturation are boosted first, since e-ink shows both muted
+ */
+export async function renderDitheredVariant(originalBuffer: Buffer, width: number, height: number, profile: DitherProfile): Promise<DitheredImage> {
+  let image = sharp(originalBuffer).resize(width, height, {
+    fit: "cover",
+    position: "entropy",
+    kernel: sharp.kernel.mks2021
+  });
+  if (profile.saturation !== 1) {
+    image = image.modulate({ saturation: profile.saturation });
+  }
+  if (profile.contrast !== 1) {
+    image = image.linear(profile.contrast, 128 * (1 - profile.contrast));
+  }
+
+  const pixels = await image.removeAlpha().toColourspace("srgb").raw().toBuffer();
+  const indices = ditherPixels(pixels, width, height, profile.measured.map(hexToRgb), profile.dither);
+  const bits = bitsPerPixel(profile.colors.length);
+
+  if (profile.output === "packed") {
+    return { buffer: packIndices(indices, width, height, bits), extension: "bin", contentType: "application/octet-stream" };
+  }
+
+  // The PNG carries the nominal colors, which is what the panel driver expects to be sent
+  const nominal = profile.colors.map(hexToRgb);
+  const rgb = Buffer.alloc(width * height * 3);
+  for (let pixel = 0; pixel < indices.length; pixel++) {
+    rgb.set(nominal[indices[pixel]], pixel * 3);
+  }
+
+  // sharp derives the palette's bit depth (1, 2 or 4) from the colour count
+  const png = await sharp(rgb, { raw: { width, height, channels: 3 } })
+    .png({ palette: true, colours: profile.colors.length, dither: 0, compressionLevel: 9 })
+    .toBuffer();
+
+  return { buffer: png, extension: "png", contentType: "image/png" };
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import { describe, it } from "node:test";
+import { parseExif } from "./exif.ts";
+
+const ASCII = 2;
+const LONG = 4;
+
+/**
+ * Little-endian EXIF block with DateTimeOriginal and, optionally, OffsetTimeOriginal in the Exif IFD
+ */
+function buildExif(dateTimeOriginal: string, offsetTimeOriginal?: string): Buffer {
+  const strings = [
+    { tag: 0x9003, value: `${dateTimeOriginal}\0` },
+    ...(offsetTimeOriginal === undefined ? [] : [{ tag: 0x9011, value: `${offsetTimeOriginal}\0` }]),
+  ];
+
+  const exifIfdOffset = 8 + 2 + 12 + 4;
+  let dataOffset = exifIfdOffset + 2 + strings.length * 12 + 4;
+  const tiff = Buffer.alloc(dataOffset + strings.reduce((sum, entry) => sum + entry.value.length, 0));
+
+  tiff.write("II", 0, "latin1");
+  tiff.writeUInt16LE(42, 2);
+  tiff.writeUInt32LE(8, 4);
+
+  // IFD0: just the pointer to the Exif IFD
+  tiff.writeUInt16LE(1, 8);
+  tiff.writeUInt16LE(0x8769, 10);
+  tiff.writeUInt16LE(LONG, 12);
+  tiff.writeUInt32LE(1, 14);
+  tiff.writeUInt32LE(exifIfdOffset, 18);
+
+  tiff.writeUInt16LE(strings.length, exifIfdOffset);
+  strings.forEach((entry, index) => {
+    const entryOffset = exifIfdOffset + 2 + index * 12;
+    tiff.writeUInt16LE(entry.tag, entryOffset);
+    tiff.writeUInt16LE(ASCII, entryOffset + 2);
+    tiff.writeUInt32LE(entry.value.length, entryOffset + 4);
+    tiff.writeUInt32LE(dataOffset, entryOffset + 8);
+    tiff.write(entry.value, dataOffset, "latin1");
+    dataOffset += entry.value.length;
+  });
+
+  return Buffer.concat([Buffer.from("Exif\0\0", "latin1"), tiff]);
+}
+
+describe("parseExif capture time", () => {
+  it("appends the recorded offset", () => {
+    assert.equal(parseExif(buildExif("2021:07:04 18:30:05", "+02:00"))?.taken_at, "2021-07-04T18:30:05+02:00");
+  });
+
+  it("keeps local time when no offset was recorded", () => {
+    assert.equal(parseExif(buildExif("2021:07:04 18:30:05"))?.taken_at, "2021-07-04T18:30:05");
+  });
+
+  it("ignores a malformed offset", () => {
+    assert.equal(parseExif(buildExif("2021:07:04 18:30:05", "2 hours"))?.taken_at, "2021-07-04T18:30:05");
+  });
+
+  it("drops a malformed or unset DateTimeOriginal", () => {
+    assert.equal(parseExif(buildExif("2021-07-04 18:30:05")), null);
+    assert.equal(parseExif(buildExif("0000:00:00 00:00:00")), null);
+  });
+
+  it("returns null for a block that isn't TIFF", () => {
+    assert.equal(parseExif(Buffer.from("Exif\0\0not a tiff block", "latin1")), null);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Minimal EXIF reader
+ * Pulls capture time, camera and GPS fields out of the raw EXIF block sharp returns in metadata.exif
+ */
+
+import { Buffer } from "node:buffer";
+
+export type ExifData = {
+  taken_at?: string; // ISO 8601 local capture time, with offset when the camera recorded one
+  camera_make?: string;
+  camera_model?: string;
+  lens_model?: string;
+  gps?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  };
+};
+
+type IfdEntry = {
+  type: number;
+  count: number;
+  valueOffset: number; // Offset of the value (inline or pointed-to) within the TIFF block
+};
+
+const TAGS = {
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  DATE_TIME: 0x0132,
+  EXIF_IFD: 0x8769,
+  GPS_IFD: 0x8825,
+  DATE_TIME_ORIGINAL: 0x9003,
+  DATE_TIME_DIGITIZED: 0x9004,
+  OFFSET_TIME_ORIGINAL: 0x9011,
+  LENS_MODEL: 0xa434,
+  GPS_LATITUDE_REF: 0x0001,
+  GPS_LATITUDE: 0x0002,
+  GPS_LONGITUDE_REF: 0x0003,
+  GPS_LONGITUDE: 0x0004,
+  GPS_ALTITUDE_REF: 0x0005,
+  GPS_ALTITUDE: 0x0006,
+} as const;
+
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+const EXIF_HEADER = "Exif\0\0";
+const DATE_PATTERN = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/;
+const OFFSET_PATTERN = /^[+-]\d{2}:\d{2}$/;
+
+/**
+ * Parse the EXIF block from sharp metadata
+ * Returns null when the block is missing or malformed
+ */
+export function parseExif(exif: Buffer | undefined): ExifData | null {
+  if (!exif || exif.length < 8) {
+    return null;
+  }
+
+  const tiff = exif.subarray(0, 6).toString("latin1") === EXIF_HEADER ? exif.subarray(6) : exif;
+
+  try {
+    return readTiff(tiff);
+  } catch (error) {
+    console.warn(`  ⚠️  Could not parse EXIF: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+function readTiff(tiff: Buffer): ExifData | null {
+  const byteOrder = tiff.subarray(0, 2).toString("latin1");
+  if (byteOrder !== "II" && byteOrder !== "MM") {
+    throw new Error(`Unknown byte order "${byteOrder}"`);
+  }
+  const little = byteOrder === "II";
+
+  const u16 = (offset: number): number => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const u32 = (offset: number): number => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+  const s32 = (offset: number): number => (little ? tiff.readInt32LE(offset) : tiff.readInt32BE(offset));
+
+  if (u16(2) !== 42) {
+    throw new Error("Missing TIFF marker");
+  }
+
+  const readIfd = (offset: number): Map<number, IfdEntry> => {
+    const entries = new Map<number, IfdEntry>();
+    if (offset <= 0 || offset + 2 > tiff.length) {
+      return entries;
+    }
+
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      if (entryOffset + 12 > tiff.length) {
+        break;
+      }
+      const type = u16(entryOffset + 2);
+      const valueCount = u32(entryOffset + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      entries.set(u16(entryOffset), {
+        type,
+        count: valueCount,
+        valueOffset: size <= 4 ? entryOffset + 8 : u32(entryOffset + 8),
+      });
+    }
+    return entries;
+  };
+
+  const readString = (entry: IfdEntry | undefined): string | undefined => {
+    if (!entry || entry.type !== 2 || entry.valueOffset + entry.count > tiff.length) {
+      return undefined;
+    }
+    const value = tiff
+      .subarray(entry.valueOffset, entry.valueOffset + entry.count)
+      .toString("latin1")
+      .replace(/\0+$/, "")
+      .trim();
+    return value || undefined;
+  };
+
+  const readRationals = (entry: IfdEntry | undefined): number[] | undefined => {
+    if (!entry || (entry.type !== 5 && entry.type !== 10) || entry.valueOffset + entry.count * 8 > tiff.length) {
+      return undefined;
+    }
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const offset = entry.valueOffset + i * 8;
+      const numerator = entry.type === 10 ? s32(offset) : u32(offset);
+      const denominator = entry.type === 10 ? s32(offset + 4) : u32(offset + 4);
+      values.push(denominator === 0 ? 0 : numerator / denominator);
+    }
+    return values;
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const exifIfd = ifd0.has(TAGS.EXIF_IFD) ? readIfd(u32(ifd0.get(TAGS.EXIF_IFD)!.valueOffset)) : new Map<number, IfdEntry>();
+  const gpsIfd = ifd0.has(TAGS.GPS_IFD) ? readIfd(u32(ifd0.get(TAGS.GPS_IFD)!.valueOffset)) : new Map<number, IfdEntry>();
+
+  const result: ExifData = {
+    taken_at: toIsoDate(
+      readString(exifIfd.get(TAGS.DATE_TIME_ORIGINAL)) ?? readString(exifIfd.get(TAGS.DATE_TIME_DIGITIZED)) ?? readString(ifd0.get(TAGS.DATE_TIME)),
+      readString(exifIfd.get(TAGS.OFFSET_TIME_ORIGINAL))
+    ),
+    camera_make: readString(ifd0.get(TAGS.MAKE)),
+    camera_model: readString(ifd0.get(TAGS.MODEL)),
+    lens_model: readString(exifIfd.get(TAGS.LENS_MODEL)),
+  };
+
+  const latitude = toDegrees(readRationals(gpsIfd.get(TAGS.GPS_LATITUDE)), readString(gpsIfd.get(TAGS.GPS_LATITUDE_REF)), "S");
+  const longitude = toDegrees(readRationals(gpsIfd.get(TAGS.GPS_LONGITUDE)), readString(gpsIfd.get(TAGS.GPS_LONGITUDE_REF)), "W");
+  if (latitude !== undefined && longitude !== undefined) {
+    const altitude = readRationals(gpsIfd.get(TAGS.GPS_ALTITUDE))?.[0];
+    const altitudeRef = gpsIfd.get(TAGS.GPS_ALTITUDE_REF);
+    const belowSeaLevel = altitudeRef !== undefined && tiff[altitudeRef.valueOffset] === 1;
+    result.gps = {
+      latitude,
+      longitude,
+      altitude: altitude === undefined ? undefined : belowSeaLevel ? -altitude : altitude,
+    };
+  }
+
+  const hasData = Object.values(result).some((value) => value !== undefined);
+  return hasData ? result : null;
+}
+
+/**
+ * Convert an EXIF "YYYY:MM:DD HH:MM:SS" date to ISO 8601
+ */
+function toIsoDate(value: string | undefined, offset: string | undefined): string | undefined {
+  const match = value ? DATE_PATTERN.exec(value) : null;
+  // Cameras without a clock write zeros
+  if (!match || match[1] === "0000") {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${offset && OFFSET_PATTERN.test(offset) ? offset : ""}`;
+}
+
+/**
+ * Convert degrees/minutes/seconds rationals to signed decimal degrees
+ */
+function toDegrees(dms: number[] | undefined, ref: string | undefined, negativeRef: string): number | undefined {
+  if (!dms || dms.length < 3) {
+    return undefined;
+  }
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  if (!Number.isFinite(degrees) || (degrees === 0 && !ref)) {
+    return undefined;
+  }
+  const rounded = parseFloat(degrees.toFixed(6));
+  return ref === negativeRef ? -rounded : rounded;
+}
@@ -0,0 +1,71 @@
+/**
+ * Panorama slicing
+ * Cuts one image across a physical arrangement of devices so it reads as a single picture,
+ * leaving out the part of the image hidden behind bezels and gaps
+ */
+
+export type SpanPanel = {
+  device_id: string;
+  width: number; // Device resolution in pixels
+  height: number;
+  x_mm: number; // Top-left of the visible area, relative to the arrangement
+  y_mm: number;
+  width_mm: number; // Size of the visible area
+  height_mm: number;
+};
+
+export type SpanArrangement = {
+  group_id: string;
+  panels: SpanPanel[];
+};
+
+export type PanoramaSlice = {
+  device_id: string;
+  left: number; // Region of the original image, in pixels
+  top: number;
+  width: number;
+  height: number;
+  output_width: number; // Device resolution
+  output_height: number;
+};
+
+/**
+ * Work out which part of an image each panel shows
+ * The image is centre-cropped to the arrangement's bounding box, then each panel takes the region
+ * under its visible area, so content behind bezels is skipped rather than squeezed
+ */
+export function calculatePanoramaSlices(imageWidth: number, imageHeight: number, panels: SpanPanel[]): { cropPercentage: number; slices: PanoramaSlice[] } {
+  const minX = Math.min(...panels.map((panel) => panel.x_mm));
+  const minY = Math.min(...panels.map((panel) => panel.y_mm));
+  const canvasWidth = Math.max(...panels.map((panel) => panel.x_mm + panel.width_mm)) - minX;
+  const canvasHeight = Math.max(...panels.map((panel) => panel.y_mm + panel.height_mm)) - minY;
+
+  const imageRatio = imageWidth / imageHeight;
+  const canvasRatio = canvasWidth / canvasHeight;
+
+  // Region of the image covering the whole canvas
+  const regionWidth = imageRatio > canvasRatio ? imageHeight * canvasRatio : imageWidth;
+  const regionHeight = imageRatio > canvasRatio ? imageHeight : imageWidth / canvasRatio;
+  const offsetX = (imageWidth - regionWidth) / 2;
+  const offsetY = (imageHeight - regionHeight) / 2;
+  const pixelsPerMm = regionWidth / canvasWidth;
+
+  const slices = panels.map((panel) => {
+    const left = Math.max(0, Math.round(offsetX + (panel.x_mm - minX) * pixelsPerMm));
+    const top = Math.max(0, Math.round(offsetY + (panel.y_mm - minY) * pixelsPerMm));
+    return {
+      device_id: panel.device_id,
+      left,
+      top,
+      width: Math.max(1, Math.min(imageWidth - left, Math.round(panel.width_mm * pixelsPerMm))),
+      height: Math.max(1, Math.min(imageHeight - top, Math.round(panel.height_mm * pixelsPerMm))),
+      output_width: panel.width,
+      output_height: panel.height,
+    };
+  });
+
+  return {
+    cropPercentage: (1 - (regionWidth * regionHeight) / (imageWidth * imageHeight)) * 100,
+    slices,
+  };
+}
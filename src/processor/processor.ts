@@ -10,6 +10,9 @@ import { encodeHex } from "@std/encoding/hex";
 import { Buffer } from "node:buffer";
 import sharp from "sharp";
 import { readFile } from "node:fs/promises";
+import { renderDitheredVariant, type DitherProfile } from "./dither.ts";
+import { parseExif, type ExifData } from "./exif.ts";
+import { calculatePanoramaSlices, type SpanArrangement } from "./panorama.ts";
 
 const storage = new Storage();
 
@@ -20,22 +23,24 @@ type Source = {
   external_id?: string;
 };
 
-type DeviceDimensions = {
+export type DeviceDimensions = {
   id: string;
   width: number;
   height: number;
   orientation: string; // TODO: remove this, it can be derived from width/height
   gap?: number; // gap between images in pair layouts
   layouts?: {
-    monotych: true; // single image full screen
+    monotych?: boolean; // single image full screen
     diptych?: boolean; // two images side by side
     triptych?: boolean; // three images side by side
   };
+  eink?: DitherProfile; // E-ink panels get dithered variants instead of JPEGs
 };
 
 type ProcessingOptions = {
   source: Source;
   deviceDimensions: DeviceDimensions[];
+  spans?: SpanArrangement[]; // Device groups to slice panoramas for
   bucketName: string;
   backendApiUrl: string;
   checkBlobExists: (hash: string) => Promise<boolean>;
@@ -52,7 +57,7 @@ export type ProcessingResult = {
     orientation: "portrait" | "landscape" | "square";
     file_size: number;
     mime_type: string;
-    exif_data: string | null;
+    exif: ExifData | null;
   };
   colorData?: {
     palette: string;
@@ -62,13 +67,17 @@ export type ProcessingResult = {
 };
 
 type LayoutType = "monotych" | "diptych" | "triptych";
+type VariantKind = LayoutType | "panorama";
 
-type Variant = {
+export type Variant = {
   device: string;
   width: number;
   height: number;
   orientation: "portrait" | "landscape" | "square";
-  layout_type: LayoutType;
+  layout_type: VariantKind;
+  group_id?: string; // Panorama slices only
+  format?: "png" | "packed"; // Dithered variants only; others are JPEG
+  profile?: string; // Key of the e-ink profile a variant was dithered for
   storage_path: string;
   file_size: number;
 };
@@ -76,7 +85,7 @@ type Variant = {
 /**
  * Download file from GCS or local path
  */
-async function downloadSource(stagingPath: string): Promise<Buffer> {
+export async function downloadSource(stagingPath: string): Promise<Buffer> {
   if (stagingPath.startsWith("gs://")) {
     // Parse GCS URI
     const match = stagingPath.match(/^gs:\/\/([^\/]+)\/(.+)$/);
@@ -106,11 +115,11 @@ async function calculateHash(buffer: Buffer): Promise<string> {
 /**
  * Upload buffer to GCS
  */
-async function uploadToGCS(buffer: Buffer, path: string, bucketName: string): Promise<string> {
+async function uploadToGCS(buffer: Buffer, path: string, bucketName: string, contentType = "image/jpeg"): Promise<string> {
   const file = storage.bucket(bucketName).file(path);
   await file.save(buffer, {
     metadata: {
-      contentType: "image/jpeg",
+      contentType,
     },
   });
   return `gs://${bucketName}/${path}`;
@@ -312,11 +321,167 @@ function evaluateImageLayouts(imageWidth: number, imageHeight: number, device: D
   return eligible;
 }
 
+/**
+ * Dither one layout's variant for an e-ink device
+ * Stored per device, as the result depends on the panel's measured colors
+ */
+async function generateDitheredVariant(
+  originalBuffer: Buffer,
+  blobHash: string,
+  device: DeviceDimensions,
+  profile: DitherProfile,
+  layout: { layoutType: string; width: number; height: number; cropPercentage: number },
+  bucketName: string
+): Promise<Variant> {
+  const dithered = await renderDitheredVariant(originalBuffer, layout.width, layout.height, profile);
+
+  const variantPath = `processed/eink/${device.id}/${layout.layoutType}/${layout.width}x${layout.height}/${blobHash}.${dithered.extension}`;
+  const variantGcsUri = await uploadToGCS(dithered.buffer, variantPath, bucketName, dithered.contentType);
+
+  console.log(`      ✓ ${layout.layoutType}: ${layout.width}x${layout.height} ${profile.palette} ${profile.output} (crop: ${layout.cropPercentage.toFixed(1)}%)`);
+
+  return {
+    device: device.id,
+    width: layout.width,
+    height: layout.height,
+    orientation: determineOrientation(layout.width, layout.height),
+    layout_type: layout.layoutType as LayoutType,
+    format: profile.output,
+    profile: profile.key,
+    storage_path: variantGcsUri,
+    file_size: dithered.buffer.length,
+  };
+}
+
+/**
+ * Generate the variants of one image for one device's enabled layouts
+ * Failed layouts are logged and skipped
+ */
+export async function generateDeviceVariants(
+  originalBuffer: Buffer,
+  width: number,
+  height: number,
+  blobHash: string,
+  device: DeviceDimensions,
+  bucketName: string
+): Promise<Variant[]> {
+  const variants: Variant[] = [];
+  const eligibleLayouts = evaluateImageLayouts(width, height, device);
+
+  console.log(`    Device ${device.width}x${device.height}: ${eligibleLayouts.length} eligible layout(s)`);
+
+  for (const layout of eligibleLayouts) {
+    try {
+      if (device.eink) {
+        variants.push(await generateDitheredVariant(originalBuffer, blobHash, device, device.eink, layout, bucketName));
+        continue;
+      }
+
+      // Resize for this layout
+      const resizedBuffer = await sharp(originalBuffer)
+        .resize(layout.width, layout.height, {
+          fit: "cover",
+          position: "entropy", // Smart crop
+          kernel: sharp.kernel.mks2021
+        })
+        .jpeg({ quality: 90 })
+        .toBuffer();
+
+      // Upload variant
+      const variantPath = `processed/${layout.layoutType}/${layout.width}x${layout.height}/${blobHash}.jpg`;
+      const variantGcsUri = await uploadToGCS(resizedBuffer, variantPath, bucketName);
+
+      const resizedOutsideBuffer = await sharp(originalBuffer)
+        .resize(layout.width, layout.height, {
+          fit: "outside",
+          kernel: sharp.kernel.mks2021
+        })
+        .jpeg({ quality: 90 })
+        .toBuffer();
+
+      // Upload variant
+      const variantOutsidePath = `processed/${layout.layoutType}/${layout.width}x${layout.height}_outside/${blobHash}.jpg`;
+      const _variantOutsideGcsUri = await uploadToGCS(resizedOutsideBuffer, variantOutsidePath, bucketName);
+
+      variants.push({
+        device: device.id,
+        width: layout.width,
+        height: layout.height,
+        orientation: determineOrientation(layout.width, layout.height),
+        layout_type: layout.layoutType as LayoutType,
+        storage_path: variantGcsUri,
+        file_size: resizedBuffer.length,
+      });
+
+      console.log(`      ✓ ${layout.layoutType}: ${layout.width}x${layout.height} (crop: ${layout.cropPercentage.toFixed(1)}%)`);
+    } catch (error) {
+      console.error(`      ✗ ${layout.layoutType} ${layout.width}x${layout.height}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * Slice one image across a group's arrangement, one variant per device
+ * A panorama is only useful whole, so nothing is returned if the image needs too much crop or any slice fails
+ */
+export async function generatePanoramaVariants(
+  originalBuffer: Buffer,
+  width: number,
+  height: number,
+  blobHash: string,
+  span: SpanArrangement,
+  bucketName: string
+): Promise<Variant[]> {
+  const { cropPercentage, slices } = calculatePanoramaSlices(width, height, span.panels);
+
+  if (cropPercentage > 50) {
+    console.log(`    Group ${span.group_id}: panorama would crop ${cropPercentage.toFixed(1)}%, skipping`);
+    return [];
+  }
+
+  try {
+    const variants: Variant[] = [];
+
+    for (const slice of slices) {
+      const sliceBuffer = await sharp(originalBuffer)
+        .extract({ left: slice.left, top: slice.top, width: slice.width, height: slice.height })
+        .resize(slice.output_width, slice.output_height, {
+          fit: "cover",
+          kernel: sharp.kernel.mks2021
+        })
+        .jpeg({ quality: 90 })
+        .toBuffer();
+
+      const slicePath = `processed/panorama/${span.group_id}/${slice.device_id}/${slice.output_width}x${slice.output_height}/${blobHash}.jpg`;
+      const sliceGcsUri = await uploadToGCS(sliceBuffer, slicePath, bucketName);
+
+      variants.push({
+        device: slice.device_id,
+        width: slice.output_width,
+        height: slice.output_height,
+        orientation: determineOrientation(slice.output_width, slice.output_height),
+        layout_type: "panorama",
+        group_id: span.group_id,
+        storage_path: sliceGcsUri,
+        file_size: sliceBuffer.length,
+      });
+    }
+
+    console.log(`      ✓ panorama for group ${span.group_id}: ${slices.length} slice(s) (crop: ${cropPercentage.toFixed(1)}%)`);
+    return variants;
+  } catch (error) {
+    console.error(`      ✗ panorama for group ${span.group_id}: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+}
+
 /**
  * Process a single source
  */
 export async function processSourceV2(options: ProcessingOptions): Promise<ProcessingResult> {
-  const { source, deviceDimensions, bucketName } = options;
+  const { source, deviceDimensions, spans = [], bucketName } = options;
 
   // Step 1: Download original
   console.log(`  📥 Downloading from ${source.staging_path}`);
@@ -350,6 +515,11 @@ export async function processSourceV2(options: ProcessingOptions): Promise<Proce
 
   console.log(`  📐 Dimensions: ${width}x${height} (${orientation})`);
 
+  const exif = parseExif(metadata.exif);
+  if (exif?.taken_at) {
+    console.log(`  📷 Taken at ${exif.taken_at}${exif.camera_model ? ` on ${exif.camera_model}` : ""}`);
+  }
+
   // Step 5: Upload original to permanent storage
   const ext = metadata.format || "jpg";
   const originalPath = `images/originals/${blobHash}.${ext}`;
@@ -386,53 +556,12 @@ export async function processSourceV2(options: ProcessingOptions): Promise<Proce
   const variants: Variant[] = [];
 
   for (const device of deviceDimensions) {
-    const eligibleLayouts = evaluateImageLayouts(width, height, device);
-
-    console.log(`    Device ${device.width}x${device.height}: ${eligibleLayouts.length} eligible layout(s)`);
-
-    for (const layout of eligibleLayouts) {
-      try {
-        // Resize for this layout
-        const resizedBuffer = await sharp(originalBuffer)
-          .resize(layout.width, layout.height, {
-            fit: "cover",
-            position: "entropy", // Smart crop
-            kernel: sharp.kernel.mks2021
-          })
-          .jpeg({ quality: 90 })
-          .toBuffer();
-
-        // Upload variant
-        const variantPath = `processed/${layout.layoutType}/${layout.width}x${layout.height}/${blobHash}.jpg`;
-        const variantGcsUri = await uploadToGCS(resizedBuffer, variantPath, bucketName);
-
-        const resizedOutsideBuffer = await sharp(originalBuffer)
-          .resize(layout.width, layout.height, {
-            fit: "outside",
-            kernel: sharp.kernel.mks2021
-          })
-          .jpeg({ quality: 90 })
-          .toBuffer();
-
-        // Upload variant
-        const variantOutsidePath = `processed/${layout.layoutType}/${layout.width}x${layout.height}_outside/${blobHash}.jpg`;
-        const _variantOutsideGcsUri = await uploadToGCS(resizedOutsideBuffer, variantOutsidePath, bucketName);
-
-        variants.push({
-          device: device.id,
-          width: layout.width,
-          height: layout.height,
-          orientation: determineOrientation(layout.width, layout.height),
-          layout_type: layout.layoutType as LayoutType,
-          storage_path: variantGcsUri,
-          file_size: resizedBuffer.length,
-        });
-
-        console.log(`      ✓ ${layout.layoutType}: ${layout.width}x${layout.height} (crop: ${layout.cropPercentage.toFixed(1)}%)`);
-      } catch (error) {
-        console.error(`      ✗ ${layout.layoutType} ${layout.width}x${layout.height}: ${error instanceof Error ? error.message : String(error)}`);
-      }
-    }
+    variants.push(...(await generateDeviceVariants(originalBuffer, width, height, blobHash, device, bucketName)));
+  }
+
+  // Step 7b: Slice panoramas for groups hung side by side
+  for (const span of spans) {
+    variants.push(...(await generatePanoramaVariants(originalBuffer, width, height, blobHash, span, bucketName)));
   }
 
   // Step 8: Return results
@@ -447,7 +576,7 @@ export async function processSourceV2(options: ProcessingOptions): Promise<Proce
       orientation,
       file_size: originalBuffer.length,
       mime_type: `image/${metadata.format || "jpeg"}`,
-      exif_data: metadata.exif ? JSON.stringify(metadata.exif) : null,
+      exif,
     },
     colorData: {
       palette: colorPalette,
@@ -12,11 +12,17 @@ import {
   getSourcesForBlob,
 } from "../db/helpers-firestore.ts";
 import { requireAuth } from "../middleware/auth.ts";
+import { getReadableUrl } from "../services/image-delivery.ts";
 import { stageImageForProcessing } from "../services/image-ingestion-v2.ts";
 import { runJob } from "../services/jobs.ts";
 import { deleteFile } from "../services/storage.ts";
+import albumsRoutes from "./albums.ts";
+import groupsRoutes from "./groups.ts";
 import photosRoutes from "./photos.ts";
 import { generateImageAnalysis } from "../services/ai.ts";
+import { arrangeByDirectionality, findDirectionalityClash } from "../services/directionality.ts";
+import { scorePairing } from "../services/pairing.ts";
+import { paletteFromColors } from "../services/color-palette.ts";
 
 const admin = new Hono();
 
@@ -24,6 +30,12 @@ const admin = new Hono();
 admin.use("/photos/*", requireAuth);
 admin.route("/photos", photosRoutes);
 
+// Album management
+admin.route("/albums", albumsRoutes);
+
+// Device groups
+admin.route("/groups", groupsRoutes);
+
 // Admin stats endpoint
 admin.get("/stats", async (c) => {
   const db = getFirestore();
@@ -134,7 +146,7 @@ admin.post("/images/analyze/:id", async (c) => {
   }
 
   try {
-    const analysis = await generateImageAnalysis(imageId, blob.storage_path.replace("gs://", "https://storage.googleapis.com/"), true);
+    const analysis = await generateImageAnalysis(imageId, await getReadableUrl(blob.storage_path), true);
     return c.json({ success: true, analysis });
   } catch (error) {
     console.error(`[Admin] Failed to analyze image ${imageId}:`, error);
@@ -142,6 +154,42 @@ admin.post("/images/analyze/:id", async (c) => {
   }
 });
 
+// Explain the pairing compatibility score for a proposed diptych or triptych
+admin.get("/pairing/explain", requireAuth, async (c) => {
+  const hashes = (c.req.query("hashes") || "").split(",").map((hash) => hash.trim()).filter(Boolean);
+
+  if (hashes.length < 2 || hashes.length > 3) {
+    return c.json({ error: "Provide 2 or 3 comma-separated blob hashes in ?hashes=" }, 400);
+  }
+
+  const blobs = await Promise.all(hashes.map((hash) => getBlob(hash)));
+  const missing = hashes.filter((_, index) => !blobs[index]);
+  if (missing.length > 0) {
+    return c.json({ error: `Blob not found: ${missing.join(", ")}` }, 404);
+  }
+
+  const images = blobs.map((blob) => ({
+    width: blob!.width,
+    height: blob!.height,
+    palette: blob!.color_palette || blob!.color_source ? paletteFromColors(blob!.color_palette ? JSON.parse(blob!.color_palette) : [], blob!.color_source) : undefined,
+    analysis: blob!.analysis,
+  }));
+  const arranged = arrangeByDirectionality(
+    hashes.map((hash, index) => ({ hash, score: blobs[index]!.analysis?.directionality?.score })),
+    (entry) => entry.score
+  );
+
+  return c.json({
+    blob_hashes: hashes,
+    ...scorePairing(images),
+    directionality: {
+      order: arranged.images.map((entry) => entry.hash),
+      ...arranged.arrangement,
+      clash: findDirectionalityClash(arranged.arrangement.scores.map((score) => score ?? undefined)) !== -1,
+    },
+  });
+});
+
 admin.delete("/images/:id", async (c) => {
   const imageId = c.req.param("id"); // Could be source_id or blob_hash
   const db = getFirestore();
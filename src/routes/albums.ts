@@ -0,0 +1,169 @@
+import { Hono } from "hono";
+import {
+  addBlobsToAlbum,
+  createAlbum,
+  deleteAlbum,
+  getAlbum,
+  getAllAlbums,
+  removeBlobsFromAlbum,
+  updateAlbum,
+} from "../db/helpers-firestore.ts";
+import { requireAuth } from "../middleware/auth.ts";
+
+const albums = new Hono();
+
+/**
+ * Parse a list of blob hashes from a request body field
+ */
+function parseBlobHashes(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every((hash) => typeof hash === "string" && hash.length > 0)) {
+    return null;
+  }
+  return [...new Set(value as string[])];
+}
+
+/**
+ * List albums
+ * GET /api/admin/albums
+ */
+albums.get("/", async (c) => {
+  const allAlbums = await getAllAlbums();
+
+  return c.json(
+    allAlbums.map((album) => ({
+      ...album,
+      count: album.blob_hashes.length,
+    }))
+  );
+});
+
+/**
+ * Create album
+ * POST /api/admin/albums
+ */
+albums.post("/", requireAuth, async (c) => {
+  const body = await c.req.json();
+  const { name, description } = body;
+
+  if (!name || typeof name !== "string") {
+    return c.json({ error: "Missing required field: name" }, 400);
+  }
+
+  const blobHashes = body.blob_hashes === undefined ? [] : parseBlobHashes(body.blob_hashes);
+  if (!blobHashes) {
+    return c.json({ error: "blob_hashes must be an array of strings" }, 400);
+  }
+
+  const id = await createAlbum({
+    name: name.trim(),
+    description: description || undefined,
+    blob_hashes: blobHashes,
+  });
+
+  return c.json({ success: true, albumId: id }, 201);
+});
+
+/**
+ * Get album
+ * GET /api/admin/albums/:albumId
+ */
+albums.get("/:albumId", async (c) => {
+  const album = await getAlbum(c.req.param("albumId"));
+
+  if (!album) {
+    return c.json({ error: "Album not found" }, 404);
+  }
+
+  return c.json(album);
+});
+
+/**
+ * Update album details, optionally replacing its membership
+ * PUT /api/admin/albums/:albumId
+ */
+albums.put("/:albumId", requireAuth, async (c) => {
+  const albumId = c.req.param("albumId");
+  const body = await c.req.json();
+  const { name, description } = body;
+
+  if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+    return c.json({ error: "name must be a non-empty string" }, 400);
+  }
+
+  const blobHashes = body.blob_hashes === undefined ? undefined : parseBlobHashes(body.blob_hashes);
+  if (blobHashes === null) {
+    return c.json({ error: "blob_hashes must be an array of strings" }, 400);
+  }
+
+  const existing = await getAlbum(albumId);
+  if (!existing) {
+    return c.json({ error: "Album not found" }, 404);
+  }
+
+  await updateAlbum(albumId, {
+    name: name?.trim(),
+    description,
+    blob_hashes: blobHashes,
+  });
+
+  return c.json({ success: true, albumId });
+});
+
+/**
+ * Delete album (devices assigned to it fall back to their remaining albums)
+ * DELETE /api/admin/albums/:albumId
+ */
+albums.delete("/:albumId", requireAuth, async (c) => {
+  const albumId = c.req.param("albumId");
+
+  const existing = await getAlbum(albumId);
+  if (!existing) {
+    return c.json({ error: "Album not found" }, 404);
+  }
+
+  await deleteAlbum(albumId);
+
+  return c.json({ success: true });
+});
+
+/**
+ * Add images to album
+ * POST /api/admin/albums/:albumId/images
+ */
+albums.post("/:albumId/images", requireAuth, async (c) => {
+  const albumId = c.req.param("albumId");
+  const body = await c.req.json();
+
+  const blobHashes = parseBlobHashes(body.blob_hashes);
+  if (!blobHashes || blobHashes.length === 0) {
+    return c.json({ error: "blob_hashes must be a non-empty array of strings" }, 400);
+  }
+
+  const existing = await getAlbum(albumId);
+  if (!existing) {
+    return c.json({ error: "Album not found" }, 404);
+  }
+
+  await addBlobsToAlbum(albumId, blobHashes);
+
+  return c.json({ success: true, albumId, added: blobHashes.length });
+});
+
+/**
+ * Remove image from album
+ * DELETE /api/admin/albums/:albumId/images/:blobHash
+ */
+albums.delete("/:albumId/images/:blobHash", requireAuth, async (c) => {
+  const albumId = c.req.param("albumId");
+
+  const existing = await getAlbum(albumId);
+  if (!existing) {
+    return c.json({ error: "Album not found" }, 404);
+  }
+
+  await removeBlobsFromAlbum(albumId, [c.req.param("blobHash")]);
+
+  return c.json({ success: true });
+});
+
+export default albums;
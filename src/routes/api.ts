@@ -1,11 +1,12 @@
 import { Hono } from "hono";
 import adminRoutes from "./admin.ts";
+import backfillRoutes from "./backfill.ts";
 import deviceRoutes from "./devices.ts";
 import processingRoutes from "./processing.ts";
 
 const api = new Hono();
 
-// Device API routes (public for now - devices authenticate via device ID)
+// Device API routes (devices authenticate with their token; changes require an admin session)
 api.route("/devices", deviceRoutes);
 
 // Admin routes
@@ -13,4 +14,6 @@ api.route("/admin", adminRoutes);
 
 api.route("/processing", processingRoutes);
 
+api.route("/backfill", backfillRoutes);
+
 export default api;
@@ -0,0 +1,170 @@
+import { Hono, type Context, type Next } from "hono";
+import { createDeviceVariant, getBackfillJob, getLatestBackfillJob, getLatestGroupBackfillJob, incrementBackfillProgress, updateBackfillJob } from "../db/helpers-firestore.ts";
+import type { BackfillJob } from "../db/types.ts";
+import { requireAuth } from "../middleware/auth.ts";
+import { getDitherProfile } from "../services/eink.ts";
+import { planBackfill, planPanoramaBackfill, startBackfill, startPanoramaBackfill, verifyBackfillJobToken } from "../services/variant-backfill.ts";
+import { parseLayouts } from "../services/slideshow-queue.ts";
+import type { Variant } from "./processing.ts";
+
+const backfill = new Hono();
+
+type BackfillProgress = {
+  results: Array<{
+    blob_hash: string;
+    variants: Variant[];
+    error?: string;
+  }>;
+};
+
+/**
+ * A job as the API shows it, without its secret hash
+ */
+function toJobResponse({ secret_hash: _secretHash, ...job }: BackfillJob): Omit<BackfillJob, "secret_hash"> {
+  return job;
+}
+
+/**
+ * Only the job's own container may report on it: it sends the secret it was started with as a bearer token
+ */
+async function requireJobSecret(c: Context, next: Next) {
+  const authorization = c.req.header("Authorization");
+  if (!authorization?.startsWith("Bearer ") || !(await verifyBackfillJobToken(c.req.param("jobId") ?? "", authorization.slice("Bearer ".length).trim()))) {
+    return c.json({ error: "Invalid job credentials" }, 401);
+  }
+
+  await next();
+}
+
+// Start a backfill for a device
+backfill.post("/devices/:deviceId", requireAuth, async (c) => {
+  try {
+    const job = await startBackfill(c.req.param("deviceId"));
+    return c.json(toJobResponse(job), 202);
+  } catch (error) {
+    return c.json({ error: (error as Error).message }, 404);
+  }
+});
+
+// Latest backfill for a device
+backfill.get("/devices/:deviceId", requireAuth, async (c) => {
+  const job = await getLatestBackfillJob(c.req.param("deviceId"));
+
+  if (!job) {
+    return c.json({ error: "No backfill for this device" }, 404);
+  }
+
+  return c.json(toJobResponse(job));
+});
+
+// Start a panorama backfill for a device group
+backfill.post("/groups/:groupId", requireAuth, async (c) => {
+  try {
+    const job = await startPanoramaBackfill(c.req.param("groupId"));
+    return c.json(toJobResponse(job), 202);
+  } catch (error) {
+    return c.json({ error: (error as Error).message }, 404);
+  }
+});
+
+// Latest panorama backfill for a device group
+backfill.get("/groups/:groupId", requireAuth, async (c) => {
+  const job = await getLatestGroupBackfillJob(c.req.param("groupId"));
+
+  if (!job) {
+    return c.json({ error: "No backfill for this group" }, 404);
+  }
+
+  return c.json(toJobResponse(job));
+});
+
+// Backfill progress
+backfill.get("/:jobId", requireAuth, async (c) => {
+  const job = await getBackfillJob(c.req.param("jobId"));
+
+  if (!job) {
+    return c.json({ error: "Backfill not found" }, 404);
+  }
+
+  return c.json(toJobResponse(job));
+});
+
+// Called by the backfill job: returns the work, re-planned so variants created since queueing are skipped
+backfill.post("/:jobId/start", requireJobSecret, async (c) => {
+  const jobId = c.req.param("jobId");
+  const job = await getBackfillJob(jobId);
+
+  if (!job) {
+    return c.json({ error: "Backfill not found" }, 404);
+  }
+
+  if (job.group_id) {
+    const plan = await planPanoramaBackfill(job.group_id);
+    await updateBackfillJob(jobId, { status: "running", total: plan.items.length });
+    return c.json({ span: plan.span, items: plan.items });
+  }
+
+  const plan = await planBackfill(job.device_id!);
+  await updateBackfillJob(jobId, { status: "running", total: plan.items.length });
+
+  return c.json({
+    device: {
+      id: plan.device.id,
+      width: plan.device.width,
+      height: plan.device.height,
+      orientation: plan.device.orientation,
+      gap: plan.device.gap,
+      layouts: parseLayouts(plan.device.layouts),
+      eink: getDitherProfile(plan.device.capabilities),
+    },
+    items: plan.items,
+  });
+});
+
+// Called by the backfill job with the variants generated for a batch of blobs
+backfill.post("/:jobId/progress", requireJobSecret, async (c) => {
+  const jobId = c.req.param("jobId");
+  const { results } = await c.req.json<BackfillProgress>();
+
+  const variants = results.flatMap((result) => result.variants.map((variant) => ({ ...variant, blob_hash: result.blob_hash })));
+  await Promise.all(
+    variants.map((variant) =>
+      createDeviceVariant({
+        device: variant.device,
+        blob_hash: variant.blob_hash,
+        width: variant.width,
+        height: variant.height,
+        orientation: variant.orientation,
+        layout_type: variant.layout_type,
+        group_id: variant.group_id,
+        format: variant.format,
+        profile: variant.profile,
+        storage_path: variant.storage_path,
+        file_size: variant.file_size,
+      })
+    )
+  );
+
+  await incrementBackfillProgress(jobId, {
+    processed: results.length,
+    failed: results.filter((result) => result.error).length,
+    variants_created: variants.length,
+  });
+
+  return c.json({ success: true });
+});
+
+// Called by the backfill job when it finishes
+backfill.post("/:jobId/complete", requireJobSecret, async (c) => {
+  const { error } = await c.req.json<{ error?: string }>();
+
+  await updateBackfillJob(c.req.param("jobId"), {
+    status: error ? "failed" : "completed",
+    error_message: error,
+    finished_at: new Date().toISOString(),
+  });
+
+  return c.json({ success: true });
+});
+
+export default backfill;
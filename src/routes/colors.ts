@@ -1,6 +1,7 @@
 import { argbFromHex, hexFromArgb, themeFromSourceColor } from "@material/material-color-utilities";
 import { Hono } from "hono";
 import { getBlob } from "../db/helpers-firestore.ts";
+import { getLightScheme } from "../services/color-scheme.ts";
 
 const colors = new Hono();
 
@@ -15,21 +16,7 @@ colors.get("/scheme/:imageId", async (c) => {
     return c.json({ palette: null });
   }
 
-  const sourceColorArgb = argbFromHex(colors[0]);
-
-  // const primaryPalette = TonalPalette.fromHct(Hct.fromInt(sourceColorArgb));
-  // const secondaryPalette = TonalPalette.fromHct(Hct.fromInt(argbFromHex(colors[1])));
-  // const tertiaryPalette = TonalPalette.fromHct(Hct.fromInt(argbFromHex(colors[2])));
-
-  const theme = themeFromSourceColor(sourceColorArgb);
-
-  const schemeJson = theme.schemes.light.toJSON();
-  const light: Record<string, string> = {};
-  for (const key in schemeJson) {
-    light[key] = hexFromArgb(schemeJson[key]);
-  }
-
-  return c.json(light);
+  return c.json(getLightScheme(colors[0]));
 });
 
 colors.get("/maketheme/:color", async (c) => {
@@ -1,65 +1,318 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { createReadStream as fsCreateReadStream } from "fs";
-import { getDevice, upsertDevice, updateDeviceLastSeen, deleteDevice, getSource, getBlob, getDeviceVariant } from "../db/helpers-firestore.ts";
-import { generateSlideshowQueue, getNextImage, loadQueueState, type QueueItem, type SlideshowQueue } from "../services/slideshow-queue.ts";
-import { isGCSEnabled, parseGCSUri, createReadStream } from "../services/storage.ts";
+import { Readable } from "stream";
+import { getDevice, upsertDevice, updateDeviceLastSeen, deleteDevice, getSource, getBlob, getDeviceVariant, getDisplayHistory, getDeviceCredential, getDeviceTelemetry, getDeviceGroup, getDeviceCommands, acknowledgeDeviceCommand, getDeviceVariantsForBlobs } from "../db/helpers-firestore.ts";
+import type { Device, DeviceVariant, VariantFormat, VariantKind } from "../db/types.ts";
+import { requireAuth, requireDeviceAuth, verifyDeviceRequest } from "../middleware/auth.ts";
+import { isValidTimeZone, parseScheduleRules, type ScheduleRule } from "../services/content-schedule.ts";
+import { getCommandConflict, isCommandType, queueDeviceCommand, takeDeviceCommands, toCommandResponse, toDeviceCommandResponse } from "../services/device-commands.ts";
+import { getCredentialStatus, issueDeviceToken, revokeDeviceToken } from "../services/device-credentials.ts";
+import { getLockstepSlide } from "../services/device-groups.ts";
+import { getDeviceStatus, parseHeartbeat, recordHeartbeat, toTelemetryResponse, type HeartbeatInput } from "../services/device-health.ts";
+import { buildProtocolFrame, encodeProtocolMsgpack, encodeProtocolText, negotiateProtocol, PROTOCOL_CONTENT_TYPES } from "../services/device-protocol.ts";
+import { parseRegistrationInput, registerDevice, type RegistrationInput } from "../services/device-registration.ts";
+import { getNoRepeatWindow, recordDisplayedItems } from "../services/display-history.ts";
+import { getDisplayState, parseDisplaySchedule, type DisplayPeriod, type DisplayState } from "../services/display-schedule.ts";
+import { itemFromVariants, renderFrame } from "../services/frame-render.ts";
+import { chooseFramebufferFormat, FRAMEBUFFER_FORMATS, getFramebuffer } from "../services/framebuffer.ts";
+import { etagForBytes, etagForMd5, etagMatches, parseRange, type ByteRange } from "../services/http-cache.ts";
+import { deliverImageUrl, deliverItems } from "../services/image-delivery.ts";
+import { isQueueMode } from "../services/memories.ts";
+import { parseOverlays, type OverlayWidget } from "../services/overlays.ts";
+import { isQueueStrategyName, isValidLayoutWeights } from "../services/queue-strategies.ts";
+import { generateSlideshowQueue, getNextImage, isValidLayouts, loadQueueState, parseLayouts, peekNextItems, saveQueueState, takeNextItems, type QueueItem, type SlideshowQueue } from "../services/slideshow-queue.ts";
+import { isGCSEnabled, parseGCSUri, createReadStream, getFileMetadata, storagePathFromUrl } from "../services/storage.ts";
+import { startBackfill } from "../services/variant-backfill.ts";
 
 const devices = new Hono();
 
+const VARIANT_CONTENT_TYPES: Record<VariantFormat, string> = { jpeg: "image/jpeg", png: "image/png", packed: "application/octet-stream" };
+
+// Images per item for each layout a frame or framebuffer can be rendered in
+const FRAME_LAYOUT_IMAGES: Record<VariantKind, number> = { monotych: 1, diptych: 2, triptych: 3, panorama: 1 };
+
+function isFrameLayout(layout: string): layout is VariantKind {
+  return Object.hasOwn(FRAME_LAYOUT_IMAGES, layout);
+}
+
+/**
+ * Compact JSON form of a queue item: [url, color] for a single image or panorama slice,
+ * [[url, url(, url)], color] for diptychs and triptychs in display order
+ */
+function packItem(item: QueueItem): (string | string[])[] {
+  const color = item.source_color ?? item.images[0]?.source_color;
+  const urls = item.layoutType === "monotych" || item.layoutType === "panorama" ? item.images[0].url : item.images.map((img) => img.url);
+  return color ? [urls, color] : [urls];
+}
+
+/**
+ * Text form of a queue item: "url,color" per image, images joined by "|", item terminated by ";"
+ */
+function packItemString(item: QueueItem): string {
+  return item.images.map((img) => (img.source_color ? `${img.url},${img.source_color}` : img.url)).join("|") + ";";
+}
+
+/**
+ * Commands to deliver alongside a queue fetch; a failure here never holds up the images
+ */
+async function takeCommandsForFetch(deviceId: string): Promise<ReturnType<typeof toDeviceCommandResponse>[]> {
+  try {
+    return (await takeDeviceCommands(deviceId)).map(toDeviceCommandResponse);
+  } catch (error) {
+    console.error(`Failed to fetch commands for device ${deviceId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Display state to send alongside a queue fetch; like commands, a failure here never holds up the images
+ */
+async function scheduleForFetch(deviceId: string): Promise<DisplayState | undefined> {
+  try {
+    const device = await getDevice(deviceId);
+    if (!device) {
+      return undefined;
+    }
+    const group = device.group_id ? await getDeviceGroup(device.group_id) : undefined;
+    return getDisplayState(device, group);
+  } catch (error) {
+    console.error(`Failed to get display schedule for device ${deviceId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Origin devices reached this server on, for absolute proxied image URLs
+ * Cloud Run terminates TLS in front of the server, so the forwarded scheme wins over the request's own
+ */
+function requestOrigin(c: Context): string {
+  const url = new URL(c.req.url);
+  const scheme = c.req.header("X-Forwarded-Proto") ?? url.protocol.replace(/:$/, "");
+  return `${scheme}://${url.host}`;
+}
+
+/**
+ * Respond with a body that honours If-None-Match (304) and a single Range (206, or 416 past the end)
+ * `read` is given the range to send, or nothing for the whole body
+ */
+function sendWithValidators(
+  c: Context,
+  body: { etag: string; size: number; read: (range?: ByteRange) => ReadableStream<Uint8Array> | Uint8Array<ArrayBuffer> },
+  headers: Record<string, string>
+): Response {
+  const common = { ...headers, ETag: body.etag, "Accept-Ranges": "bytes" };
+
+  if (etagMatches(c.req.header("If-None-Match"), body.etag)) {
+    return new Response(null, { status: 304, headers: common });
+  }
+
+  const range = parseRange(c.req.header("Range"), body.size);
+  if (range === "unsatisfiable") {
+    return new Response(null, { status: 416, headers: { ...common, "Content-Range": `bytes */${body.size}` } });
+  }
+  if (range) {
+    return new Response(body.read(range), {
+      status: 206,
+      headers: { ...common, "Content-Range": `bytes ${range.start}-${range.end}/${body.size}`, "Content-Length": String(range.end - range.start + 1) },
+    });
+  }
+
+  return new Response(body.read(), { headers: { ...common, "Content-Length": String(body.size) } });
+}
+
+/**
+ * Whether an update changes the variant sizes a device needs
+ */
+function variantGeometryChanged(before: Device, after: Device): boolean {
+  return (
+    before.width !== after.width ||
+    before.height !== after.height ||
+    (before.gap ?? 0) !== (after.gap ?? 0) ||
+    JSON.stringify(parseLayouts(before.layouts)) !== JSON.stringify(parseLayouts(after.layouts))
+  );
+}
+
+/**
+ * Start a variant backfill without holding up the response
+ */
+function triggerBackfill(deviceId: string): void {
+  startBackfill(deviceId).catch((error) => {
+    console.error(`Failed to start variant backfill for ${deviceId}:`, error);
+  });
+}
+
 /**
  * Register or update device (V2 Handshake API)
  * POST /api/devices/register
  */
 devices.post("/register", async (c) => {
-  return c.text("Device Registration Endpoint");
-  // try {
-  //   const body = await c.req.json();
-  //   const { id, name, width, height, orientation, capabilities, version } = body;
-
-  //   if (!id || !name || !width || !height || !orientation) {
-  //     return c.json({
-  //       error: "Missing required fields: id, name, width, height, orientation"
-  //     }, 400);
-  //   }
-
-  //   // Upsert device
-  //   await upsertDevice({
-  //     id,
-  //     name,
-  //     width,
-  //     height,
-  //     orientation,
-  //     capabilities: capabilities ? JSON.stringify(capabilities) : undefined,
-  //     version,
-  //     gap: 0,
-  //     created_at: new Date().toISOString(),
-  //     last_seen: new Date().toISOString(),
-  //   });
-
-  //   console.log(`📱 Device registered: ${name} (${width}x${height} ${orientation})`);
-
-  //   // Check if variants exist for this dimension
-  //   // Note: This requires a query across all device_variants - could be expensive
-  //   // For now, we'll assume backfill is needed if device is new
-  //   const needsBackfill = false; // TODO: Implement proper check
-
-  //   return c.json({
-  //     success: true,
-  //     deviceId: id,
-  //     needsBackfill,
-  //     message: needsBackfill
-  //       ? "Device registered. Image variants will be generated."
-  //       : "Device registered successfully"
-  //   });
-  // } catch (error: any) {
-  //   console.error("Error registering device:", error);
-  //   return c.json({ error: error.message }, 500);
-  // }
+  let input: RegistrationInput;
+  try {
+    input = parseRegistrationInput(await c.req.json());
+  } catch (error) {
+    return c.json({ error: (error as Error).message }, 400);
+  }
+
+  // Devices holding a token must present it. Only new IDs are issued one here: an existing device without a token,
+  // such as one registered before tokens existed, needs an admin to issue it, or anyone could claim the ID
+  const [credential, existing] = await Promise.all([getDeviceCredential(input.id), getDevice(input.id)]);
+  const credentialStatus = getCredentialStatus(credential);
+  if (credentialStatus === "revoked") {
+    return c.json({ error: "Device credentials revoked. Issue a new token from the devices page." }, 403);
+  }
+  if (credentialStatus === "none" && existing) {
+    return c.json({ error: "Device already exists. Issue a token from the devices page and register with it." }, 401);
+  }
+  if (credentialStatus === "active" && !(await verifyDeviceRequest(c, input.id))) {
+    return c.json({ error: "Invalid device credentials" }, 401);
+  }
+
+  try {
+    const result = await registerDevice(input);
+    const token = credentialStatus === "none" ? await issueDeviceToken(input.id) : undefined;
+
+    console.log(
+      `📱 Device ${result.created ? "registered" : "checked in"}: ${result.config.name} (${result.config.width}x${result.config.height} ${result.config.orientation})` +
+        (result.changes.length > 0 ? `, changed: ${result.changes.join(", ")}` : "")
+    );
+
+    if (result.needsBackfill) {
+      triggerBackfill(input.id);
+    }
+
+    return c.json({
+      success: true,
+      deviceId: input.id,
+      ...result,
+      token,
+      message: result.needsBackfill ? "Device registered. Image variants will be generated." : "Device registered successfully",
+    });
+  } catch (error) {
+    console.error("Error registering device:", error);
+    return c.json({ error: (error as Error).message }, 500);
+  }
 });
 
 // Get device info
-devices.get("/:deviceId", async (c) => {
+devices.get("/:deviceId", requireDeviceAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+
+  const device = await getDevice(deviceId);
+
+  if (!device) {
+    return c.json({ error: "Device not found" }, 404);
+  }
+
+  return c.json({ ...device, status: getDeviceStatus(device) });
+});
+
+/**
+ * Heartbeat with telemetry
+ * POST /api/devices/:deviceId/heartbeat
+ */
+devices.post("/:deviceId/heartbeat", requireDeviceAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+
+  let heartbeat: HeartbeatInput;
+  try {
+    heartbeat = parseHeartbeat(await c.req.json());
+  } catch (error) {
+    return c.json({ error: (error as Error).message }, 400);
+  }
+
+  const device = await getDevice(deviceId);
+  if (!device) {
+    return c.json({ error: "Device not found" }, 404);
+  }
+
+  try {
+    const { pollInterval, telemetry } = await recordHeartbeat(device, heartbeat);
+
+    if (telemetry.restarted) {
+      console.log(`📱 Device ${deviceId} restarted` + (telemetry.last_error ? `, last error: ${telemetry.last_error}` : ""));
+    }
+
+    return c.json({
+      success: true,
+      serverTime: telemetry.reported_at,
+      pollInterval,
+    });
+  } catch (error) {
+    console.error("Error recording heartbeat:", error);
+    return c.json({ error: (error as Error).message }, 500);
+  }
+});
+
+/**
+ * Group membership and, for lockstep groups, the shared slide and when it changes
+ * GET /api/devices/:deviceId/group
+ */
+devices.get("/:deviceId/group", requireDeviceAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+
+  const device = await getDevice(deviceId);
+  if (!device) {
+    return c.json({ error: "Device not found" }, 404);
+  }
+
+  const group = device.group_id ? await getDeviceGroup(device.group_id) : undefined;
+  if (!group) {
+    return c.json({ deviceId, group: null });
+  }
+
+  try {
+    const slide = group.mode === "lockstep" ? await getLockstepSlide(group, deviceId) : null;
+    const [item] = slide ? await deliverItems(slide.items.slice(0, 1), deviceId, requestOrigin(c)) : [];
+
+    return c.json({
+      deviceId,
+      group: { id: group.id, name: group.name, mode: group.mode, members: group.device_ids, slideSeconds: group.slide_seconds },
+      slide: slide ? { index: slide.index, changesAt: slide.changesAt, item: item ?? null } : null,
+    });
+  } catch (error) {
+    console.error("Error fetching group slide:", error);
+    return c.json({ error: (error as Error).message }, 500);
+  }
+});
+
+// Get telemetry time series for device
+devices.get("/:deviceId/telemetry", requireDeviceAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+  const limitParam = c.req.query("limit");
+  const limit = limitParam ? Math.min(parseInt(limitParam, 10) || 100, 1000) : 100;
+  const since = c.req.query("since");
+
+  if (since !== undefined && Number.isNaN(Date.parse(since))) {
+    return c.json({ error: "since must be an ISO timestamp" }, 400);
+  }
+
+  const device = await getDevice(deviceId);
+
+  if (!device) {
+    return c.json({ error: "Device not found" }, 404);
+  }
+
+  try {
+    const telemetry = await getDeviceTelemetry(deviceId, limit, since && new Date(since).toISOString());
+
+    return c.json({
+      deviceId,
+      status: getDeviceStatus(device),
+      lastSeen: device.last_seen ?? null,
+      pollInterval: device.poll_interval ?? null,
+      telemetry: telemetry.map(toTelemetryResponse),
+    });
+  } catch (error) {
+    console.error("Error fetching telemetry:", error);
+    return c.json({ error: (error as Error).message }, 500);
+  }
+});
+
+// Get display history for device
+devices.get("/:deviceId/history", requireDeviceAuth, async (c) => {
   const deviceId = c.req.param("deviceId");
+  const limitParam = c.req.query("limit");
+  const limit = limitParam ? Math.min(parseInt(limitParam, 10) || 100, 1000) : 100;
 
   const device = await getDevice(deviceId);
 
@@ -67,55 +320,159 @@ devices.get("/:deviceId", async (c) => {
     return c.json({ error: "Device not found" }, 404);
   }
 
-  return c.json(device);
+  try {
+    const history = await getDisplayHistory(deviceId, limit);
+
+    return c.json({
+      deviceId,
+      noRepeatWindow: getNoRepeatWindow(device),
+      history: history.map((entry) => ({
+        blob_hash: entry.blob_hash,
+        layout_type: entry.layout_type,
+        shown_at: entry.shown_at,
+      })),
+    });
+  } catch (error) {
+    return c.json({ error: (error as Error).message }, 500);
+  }
+});
+
+/**
+ * Queue a remote control command (skip, previous, pause, resume, pin, unpin, refresh)
+ * POST /api/devices/:deviceId/commands
+ */
+devices.post("/:deviceId/commands", requireAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+  const { type } = (await c.req.json().catch(() => ({}))) as { type?: unknown };
+
+  if (!isCommandType(type)) {
+    return c.json({ error: `Unknown command: ${type}` }, 400);
+  }
+
+  const device = await getDevice(deviceId);
+  if (!device) {
+    return c.json({ error: "Device not found" }, 404);
+  }
+
+  const conflict = getCommandConflict(device.group_id ? await getDeviceGroup(device.group_id) : undefined, type);
+  if (conflict) {
+    return c.json({ error: conflict }, 409);
+  }
+
+  try {
+    const command = await queueDeviceCommand(device, type);
+    return c.json({ success: true, command: toCommandResponse(command) }, 201);
+  } catch (error) {
+    console.error("Error queueing command:", error);
+    return c.json({ error: (error as Error).message }, 500);
+  }
+});
+
+/**
+ * Poll for waiting commands; each is delivered until the device acknowledges it
+ * GET /api/devices/:deviceId/commands
+ */
+devices.get("/:deviceId/commands", requireDeviceAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+
+  try {
+    const commands = await takeDeviceCommands(deviceId);
+    return c.json({ deviceId, commands: commands.map(toDeviceCommandResponse) });
+  } catch (error) {
+    console.error("Error fetching commands:", error);
+    return c.json({ error: (error as Error).message }, 500);
+  }
+});
+
+/**
+ * Recent commands and whether the device acted on them
+ * GET /api/devices/:deviceId/commands/history
+ */
+devices.get("/:deviceId/commands/history", requireAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+  const limitParam = c.req.query("limit");
+  const limit = limitParam ? Math.min(parseInt(limitParam, 10) || 50, 500) : 50;
+
+  const commands = await getDeviceCommands(deviceId, limit);
+
+  return c.json({ deviceId, commands: commands.map(toCommandResponse) });
+});
+
+/**
+ * Acknowledge a command, with an error if the device couldn't carry it out
+ * POST /api/devices/:deviceId/commands/:commandId/ack
+ */
+devices.post("/:deviceId/commands/:commandId/ack", requireDeviceAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+  const body = (await c.req.json().catch(() => ({}))) as { error?: unknown };
+
+  if (body.error !== undefined && typeof body.error !== "string") {
+    return c.json({ error: "error must be a string" }, 400);
+  }
+  const error = typeof body.error === "string" ? body.error : undefined;
+
+  const found = await acknowledgeDeviceCommand(deviceId, c.req.param("commandId"), error);
+  if (!found) {
+    return c.json({ error: "Command not found" }, 404);
+  }
+
+  return c.json({ success: true });
 });
 
 // Get slideshow queue for device
-devices.get("/:deviceId/slideshow", async (c) => {
+devices.get("/:deviceId/slideshow", requireDeviceAuth, async (c) => {
   const deviceId = c.req.param("deviceId");
   const regenerate = c.req.query("regenerate") === "true";
 
   try {
     let queue: SlideshowQueue;
+    const schedule = await scheduleForFetch(deviceId);
 
     if (regenerate) {
       // Generate fresh queue
       queue = await generateSlideshowQueue(deviceId, 10);
+      await saveQueueState(queue);
     } else {
       // Load existing or generate new
       queue = await loadQueueState(deviceId);
       if (!queue) {
         queue = await generateSlideshowQueue(deviceId, 10);
+        await saveQueueState(queue);
       }
     }
 
-    return c.json(queue);
+    return c.json({ ...queue, queue: await deliverItems(queue.queue, deviceId, requestOrigin(c)), schedule });
   } catch (error) {
     return c.json({ error: (error as Error).message }, 404);
   }
 });
 
 // Get next image in slideshow
-devices.get("/:deviceId/next", async (c) => {
+devices.get("/:deviceId/next", requireDeviceAuth, async (c) => {
   const deviceId = c.req.param("deviceId");
 
   try {
-    const item = await getNextImage(deviceId);
+    const [item, commands, schedule] = await Promise.all([getNextImage(deviceId), takeCommandsForFetch(deviceId), scheduleForFetch(deviceId)]);
 
     if (!item) {
-      return c.json({ error: "No images available" }, 404);
+      // Quiet hours aren't an error: the device sleeps until the schedule changes
+      if (schedule?.screen === "off") {
+        return c.json({ schedule, ...(commands.length > 0 && { commands }) });
+      }
+      return c.json({ error: "No images available", ...(commands.length > 0 && { commands }) }, 404);
     }
 
-    return c.json(item);
+    const [delivered] = await deliverItems([item], deviceId, requestOrigin(c));
+    return c.json({ ...delivered, schedule, ...(commands.length > 0 && { commands }) });
   } catch (error) {
     return c.json({ error: (error as Error).message }, 500);
   }
 });
 
-devices.get("/:deviceId/packed", async (c) => {
+devices.get("/:deviceId/packed", requireDeviceAuth, async (c) => {
   const deviceId = c.req.param("deviceId");
   const countParam = c.req.query("count");
-  const count = countParam ? parseInt(countParam, 10) : 1;
+  const count = countParam ? Math.min(Math.max(parseInt(countParam, 10) || 1, 1), 50) : 1;
   const isNewParam = c.req.query("is_new");
   const isNew = isNewParam === "true";
 
@@ -127,58 +484,43 @@ devices.get("/:deviceId/packed", async (c) => {
         console.error("Failed to update device last seen:", err);
       });
       items = (await generateSlideshowQueue(deviceId, count)).queue;
+      recordDisplayedItems(deviceId, items).catch((err) => {
+        console.error("Failed to record display history:", err);
+      });
     } else {
-      let i = 0;
-      while (i < count) {
-        const item = await getNextImage(deviceId);
-        if (!item) {
-          break;
-        }
-        items.push(item);
-        i++;
-      }
+      items = await takeNextItems(deviceId, count);
+    }
+
+    // The packed body is a bare array, so commands and the schedule travel in headers
+    const [commands, schedule] = await Promise.all([takeCommandsForFetch(deviceId), scheduleForFetch(deviceId)]);
+    if (commands.length > 0) {
+      c.header("X-Device-Commands", JSON.stringify(commands));
+    }
+    if (schedule) {
+      c.header("X-Device-Schedule", JSON.stringify(schedule));
     }
 
-    // const packedItems = items.map(item => item.images.map(img => [img.url, img.source_color].filter(Boolean)));
-    const packedItems = items.map((item) => [item.images.length > 1 ? item.images.map((img) => img.url) : item.images[0].url, item.images[0].source_color].filter(Boolean));
-    // console.log("Packed Items:", packedItems);
-    return c.json(packedItems);
+    return c.json((await deliverItems(items, deviceId, requestOrigin(c))).map(packItem));
   } catch (error) {
     return c.json({ error: (error as Error).message }, 500);
   }
 });
 
-devices.get("/:deviceId/packed-str", async (c) => {
+devices.get("/:deviceId/packed-str", requireDeviceAuth, async (c) => {
   const deviceId = c.req.param("deviceId");
   const countParam = c.req.query("count");
-  const count = countParam ? parseInt(countParam, 10) : 1;
+  const count = countParam ? Math.min(Math.max(parseInt(countParam, 10) || 1, 1), 50) : 1;
 
   try {
-    const items: QueueItem[] = [];
-    let i = 0;
-    while (i < count) {
-      const item = await getNextImage(deviceId);
-      if (!item) {
-        break;
-      }
-      items.push(item);
-      i++;
+    const [items, commands, schedule] = await Promise.all([takeNextItems(deviceId, count), takeCommandsForFetch(deviceId), scheduleForFetch(deviceId)]);
+    if (commands.length > 0) {
+      c.header("X-Device-Commands", JSON.stringify(commands));
     }
-
-    let str = "";
-    for (const item of items) {
-      const parts: string[] = [];
-      for (const img of item.images) {
-        const imgParts = [img.url];
-        if (img.source_color) {
-          imgParts.push(img.source_color);
-        }
-        parts.push(imgParts.join(","));
-      }
-      str += parts.join("|") + ";";
+    if (schedule) {
+      c.header("X-Device-Schedule", JSON.stringify(schedule));
     }
 
-    return c.text(str);
+    return c.text((await deliverItems(items, deviceId, requestOrigin(c))).map(packItemString).join(""));
 
     // const item = await getNextImage(deviceId);
     // if (!item) {
@@ -191,10 +533,202 @@ devices.get("/:deviceId/packed-str", async (c) => {
   }
 });
 
-// Get processed image for device (LEGACY - returns JPEG)
-devices.get("/:deviceId/images/:imageId", async (c) => {
+/**
+ * Next items in the versioned device protocol, as msgpack or escaped text
+ * GET /api/devices/:deviceId/feed?count=N&v=1&format=msgpack|text
+ */
+devices.get("/:deviceId/feed", requireDeviceAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+  const countParam = c.req.query("count");
+  const count = countParam ? Math.min(Math.max(parseInt(countParam, 10) || 1, 1), 50) : 1;
+
+  let protocol: ReturnType<typeof negotiateProtocol>;
+  try {
+    protocol = negotiateProtocol(c.req.header("Accept"), c.req.query("v"), c.req.query("format"));
+  } catch (error) {
+    return c.json({ error: (error as Error).message }, 406);
+  }
+
+  const device = await getDevice(deviceId);
+  if (!device) {
+    return c.json({ error: "Device not found" }, 404);
+  }
+
+  try {
+    const group = device.group_id ? await getDeviceGroup(device.group_id) : undefined;
+    const schedule = getDisplayState(device, group);
+
+    const [items, commands] = await Promise.all([takeNextItems(deviceId, count), takeCommandsForFetch(deviceId)]);
+    const frame = await buildProtocolFrame(device, await deliverItems(items, deviceId, requestOrigin(c)), commands, schedule.slide_seconds);
+
+    const contentType = `${PROTOCOL_CONTENT_TYPES[protocol.format]}; v=${protocol.version}`;
+    c.header("Vary", "Accept");
+    c.header("X-Device-Schedule", JSON.stringify(schedule));
+
+    if (protocol.format === "text") {
+      return c.body(encodeProtocolText(frame), 200, { "Content-Type": `${contentType}; charset=utf-8` });
+    }
+    return c.body(encodeProtocolMsgpack(frame), 200, { "Content-Type": contentType });
+  } catch (error) {
+    return c.json({ error: (error as Error).message }, 500);
+  }
+});
+
+/**
+ * Upcoming items with each image's size and ETag, without advancing the queue, so devices can prefetch
+ * and skip images already in their cache
+ * GET /api/devices/:deviceId/manifest?count=N
+ */
+devices.get("/:deviceId/manifest", requireDeviceAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+  const countParam = c.req.query("count");
+  const count = countParam ? Math.min(Math.max(parseInt(countParam, 10) || 1, 1), 50) : 10;
+
+  try {
+    const items = await peekNextItems(deviceId, count);
+
+    const manifest = {
+      items: await Promise.all(
+        items.map(async (item) => ({
+          layout: item.layoutType,
+          source_color: item.source_color ?? item.images[0]?.source_color,
+          images: await Promise.all(
+            item.images.map(async (image) => {
+              const metadata = await getFileMetadata(storagePathFromUrl(image.url)).catch((error) => {
+                console.error(`Failed to read metadata for ${image.url}:`, error);
+                return undefined;
+              });
+              return {
+                // The image route answers conditional and range requests; it can only look images up by blob hash
+                url: image.blob_hash ? `/api/devices/${deviceId}/images/${image.blob_hash}?layout=${item.layoutType}` : await deliverImageUrl(item, image, deviceId, requestOrigin(c)),
+                blob_hash: image.blob_hash,
+                size: metadata?.size,
+                md5: metadata?.md5,
+                etag: metadata ? etagForMd5(metadata.md5) : undefined,
+              };
+            })
+          ),
+        }))
+      ),
+    };
+
+    // The ETag only changes when the upcoming items do, so polling an unchanged manifest costs a 304
+    const body = new TextEncoder().encode(JSON.stringify(manifest));
+    return sendWithValidators(c, { etag: etagForBytes(body), size: body.length, read: () => body }, { "Content-Type": "application/json", "Cache-Control": "no-cache" });
+  } catch (error) {
+    return c.json({ error: (error as Error).message }, 500);
+  }
+});
+
+/**
+ * Next queue item composited into one JPEG at device resolution, with the device's overlays, for firmware that can only show a single image
+ * GET /api/devices/:deviceId/frame/next
+ */
+devices.get("/:deviceId/frame/next", requireDeviceAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+
+  const device = await getDevice(deviceId);
+  if (!device) {
+    return c.json({ error: "Device not found" }, 404);
+  }
+
+  try {
+    const [items, commands, schedule] = await Promise.all([takeNextItems(deviceId, 1), takeCommandsForFetch(deviceId), scheduleForFetch(deviceId)]);
+    if (commands.length > 0) {
+      c.header("X-Device-Commands", JSON.stringify(commands));
+    }
+    if (schedule) {
+      c.header("X-Device-Schedule", JSON.stringify(schedule));
+    }
+
+    const item = items[0];
+    if (!item) {
+      if (schedule?.screen === "off") {
+        return c.body(null, 204);
+      }
+      return c.json({ error: "No images available" }, 404);
+    }
+
+    const frame = await renderFrame(device, item);
+    const sourceColor = item.source_color ?? item.images[0]?.source_color;
+
+    return c.body(new Uint8Array(frame), 200, {
+      "Content-Type": "image/jpeg",
+      "Cache-Control": "no-store",
+      "X-Layout": item.layoutType,
+      "X-Blob-Hashes": item.images.map((image) => image.blob_hash ?? "").join(","),
+      ...(sourceColor ? { "X-Source-Color": sourceColor } : {}),
+    });
+  } catch (error) {
+    console.error(`Failed to render frame for device ${deviceId}:`, error);
+    return c.json({ error: (error as Error).message }, 500);
+  }
+});
+
+/**
+ * A specific item composited into one JPEG, named by its layout and blob hashes in display order
+ * The gap takes the first image's source color unless ?background=RRGGBB is given; overlays only with ?overlays=true
+ * GET /api/devices/:deviceId/frame/:layout/:hashes?background=RRGGBB&overlays=true
+ */
+devices.get("/:deviceId/frame/:layout/:hashes", requireDeviceAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+  const layout = c.req.param("layout");
+  const hashes = c.req.param("hashes").split(",").filter(Boolean);
+  const backgroundParam = c.req.query("background");
+  const withOverlays = c.req.query("overlays") === "true";
+
+  if (!isFrameLayout(layout)) {
+    return c.json({ error: `Unknown layout: ${layout}` }, 400);
+  }
+  const expected = FRAME_LAYOUT_IMAGES[layout];
+  if (hashes.length !== expected) {
+    return c.json({ error: `${layout} takes ${expected} blob hash${expected === 1 ? "" : "es"}` }, 400);
+  }
+  if (backgroundParam !== undefined && !/^#?[0-9a-fA-F]{6}$/.test(backgroundParam)) {
+    return c.json({ error: "background must be a hex color like 1a2b3c" }, 400);
+  }
+
+  const device = await getDevice(deviceId);
+  if (!device) {
+    return c.json({ error: "Device not found" }, 404);
+  }
+
+  try {
+    const variants = await getDeviceVariantsForBlobs(deviceId, layout, hashes);
+    const ordered = hashes.map((hash) => variants.find((variant) => variant.blob_hash === hash));
+    if (ordered.some((variant) => !variant)) {
+      return c.json({ error: `No ${layout} variants for every image on this device` }, 404);
+    }
+
+    const background = backgroundParam
+      ? `#${backgroundParam.replace(/^#/, "")}`
+      : (await getBlob(hashes[0]))?.color_source;
+    const frame = await renderFrame(device, itemFromVariants(ordered as DeviceVariant[], background), { overlays: withOverlays });
+
+    return c.body(new Uint8Array(frame), 200, {
+      "Content-Type": "image/jpeg",
+      // Variants don't change, but a new gap or resolution re-renders the frame; overlays show the time
+      "Cache-Control": withOverlays ? "no-store" : "private, max-age=86400",
+    });
+  } catch (error) {
+    console.error(`Failed to render frame for device ${deviceId}:`, error);
+    return c.json({ error: (error as Error).message }, 500);
+  }
+});
+
+/**
+ * Get processed image for device, by source ID at the device's full size, or by blob hash with ?layout=
+ * Supports If-None-Match and Range for images in storage
+ * GET /api/devices/:deviceId/images/:imageId?layout=monotych|diptych|triptych|panorama
+ */
+devices.get("/:deviceId/images/:imageId", requireDeviceAuth, async (c) => {
   const deviceId = c.req.param("deviceId");
   const imageId = c.req.param("imageId");
+  const layout = c.req.query("layout");
+
+  if (layout !== undefined && !isFrameLayout(layout)) {
+    return c.json({ error: `Unknown layout: ${layout}` }, 400);
+  }
 
   try {
     // Get device info to determine size
@@ -206,15 +740,24 @@ devices.get("/:deviceId/images/:imageId", async (c) => {
 
     // Try new schema first (device_variants + blobs)
     let filePath: string | undefined;
+    let contentType = "image/jpeg";
+
+    if (layout) {
+      // Blob hash from a queue item or manifest
+      const [variant] = await getDeviceVariantsForBlobs(deviceId, layout as VariantKind, [imageId]);
+      filePath = variant?.storage_path;
+      contentType = VARIANT_CONTENT_TYPES[variant?.format ?? "jpeg"];
+    }
 
     // First check if imageId is actually a source ID
-    const source = await getSource(imageId);
+    const source = layout ? undefined : await getSource(imageId);
     const blobHash = source?.blob_hash;
 
     if (blobHash) {
       // Query device_variants by blob hash and device dimensions
       const variant = await getDeviceVariant(blobHash, device.width, device.height);
       filePath = variant?.storage_path;
+      contentType = VARIANT_CONTENT_TYPES[variant?.format ?? "jpeg"];
     }
 
     // TODO: Add fallback to legacy schema if needed
@@ -235,22 +778,22 @@ devices.get("/:deviceId/images/:imageId", async (c) => {
         return c.json({ error: "Invalid GCS path" }, 500);
       }
 
-      const stream = createReadStream(gcsInfo.path);
+      const metadata = await getFileMetadata(gcsInfo.path);
 
-      return new Response(stream, {
-        headers: {
-          "Content-Type": "image/jpeg",
-          "Cache-Control": "public, max-age=31536000",
-        },
-      });
+      return sendWithValidators(
+        c,
+        { etag: etagForMd5(metadata.md5), size: metadata.size, read: (range) => createReadStream(gcsInfo.path, range) },
+        { "Content-Type": contentType, "Cache-Control": "private, max-age=31536000" }
+      );
     } else {
       // Stream from local filesystem
-      const file = fsCreateReadStream(filePath);
+      const file = Readable.toWeb(fsCreateReadStream(filePath)) as ReadableStream<Uint8Array>;
 
-      return new Response(file as any, {
+      return new Response(file, {
         headers: {
-          "Content-Type": "image/jpeg",
-          "Cache-Control": "public, max-age=31536000",
+          "Content-Type": contentType,
+          // Device-authenticated, so shared caches must not keep a copy
+          "Cache-Control": "private, max-age=31536000",
         },
       });
     }
@@ -264,7 +807,7 @@ devices.get("/:deviceId/images/:imageId", async (c) => {
  * V2 API: Get image metadata with theme data
  * GET /api/devices/:deviceId/images/:imageId/metadata
  */
-devices.get("/:deviceId/images/:imageId/metadata", async (c) => {
+devices.get("/:deviceId/images/:imageId/metadata", requireDeviceAuth, async (c) => {
   const deviceId = c.req.param("deviceId");
   const imageId = c.req.param("imageId");
 
@@ -323,60 +866,213 @@ devices.get("/:deviceId/images/:imageId/metadata", async (c) => {
   }
 });
 
+/**
+ * A variant as a raw framebuffer in the first format the device lists in capabilities.decoders
+ * GET /api/devices/:deviceId/images/:blobHash/raw?layout=monotych|diptych|triptych|panorama
+ */
+devices.get("/:deviceId/images/:blobHash/raw", requireDeviceAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+  const blobHash = c.req.param("blobHash");
+  const layout = c.req.query("layout") ?? "monotych";
+
+  if (!isFrameLayout(layout)) {
+    return c.json({ error: `Unknown layout: ${layout}` }, 400);
+  }
+
+  const device = await getDevice(deviceId);
+  if (!device) {
+    return c.json({ error: "Device not found" }, 404);
+  }
+
+  const format = chooseFramebufferFormat(device.capabilities);
+  if (!format) {
+    return c.json({ error: `Device declares no raw format in capabilities.decoders; supported: ${FRAMEBUFFER_FORMATS.join(", ")}` }, 406);
+  }
+
+  try {
+    const [variant] = await getDeviceVariantsForBlobs(deviceId, layout, [blobHash]);
+    if (!variant) {
+      return c.json({ error: "Image not found" }, 404);
+    }
+    if (variant.format === "packed") {
+      return c.json({ error: "Variant is already a packed e-ink framebuffer; fetch it from its URL" }, 409);
+    }
+
+    const framebuffer = new Uint8Array(await getFramebuffer(variant, format));
+
+    return sendWithValidators(
+      c,
+      { etag: etagForBytes(framebuffer), size: framebuffer.length, read: (range) => (range ? framebuffer.subarray(range.start, range.end + 1) : framebuffer) },
+      {
+        "Content-Type": "application/octet-stream",
+        "X-Pixel-Format": format,
+        // A device resized since gets a different variant at the same URL
+        "Cache-Control": "private, max-age=86400",
+      }
+    );
+  } catch (error) {
+    console.error(`Failed to serve framebuffer for device ${deviceId}:`, error);
+    return c.json({ error: (error as Error).message }, 500);
+  }
+});
+
 // Register or update device
-devices.post("/", async (c) => {
+devices.post("/", requireAuth, async (c) => {
   const body = await c.req.json();
-  const { id, name, width, height, orientation } = body;
-
-  return c.json({ success: true, deviceId: id });
+  const { id, name, width, height, orientation, layouts, albums } = body;
 
   if (!id || !name || !width || !height || !orientation) {
     return c.json({ error: "Missing required fields" }, 400);
   }
 
-  await upsertDevice({
+  if (layouts !== undefined && !isValidLayouts(layouts)) {
+    return c.json({ error: "layouts must map monotych, diptych and triptych to booleans, with at least one enabled" }, 400);
+  }
+
+  if (albums !== undefined && (!Array.isArray(albums) || !albums.every((albumId) => typeof albumId === "string"))) {
+    return c.json({ error: "albums must be an array of album IDs" }, 400);
+  }
+
+  const existing = await getDevice(id);
+  const device: Device = {
+    ...existing,
     id,
     name,
     width,
     height,
     orientation,
-    gap: 0,
-    created_at: new Date().toISOString(),
+    layouts: layouts ? JSON.stringify({ ...parseLayouts(existing?.layouts), ...layouts }) : existing?.layouts,
+    albums: albums ?? existing?.albums,
+    gap: existing?.gap ?? 0,
+    created_at: existing?.created_at ?? new Date().toISOString(),
     last_seen: new Date().toISOString(),
-  });
+  };
+
+  await upsertDevice(device);
+
+  if (!existing || variantGeometryChanged(existing, device)) {
+    triggerBackfill(id);
+  }
+
+  // New devices get a token to configure on the hardware
+  const token = existing ? undefined : await issueDeviceToken(id);
 
-  return c.json({ success: true, deviceId: id });
+  return c.json({ success: true, deviceId: id, token });
 });
 
 // Update device
-devices.put("/:deviceId", async (c) => {
+devices.put("/:deviceId", requireAuth, async (c) => {
   const deviceId = c.req.param("deviceId");
   const body = await c.req.json();
-  const { name, width, height, orientation } = body;
+  const { name, width, height, orientation, layouts, queue_strategy, queue_mode, layout_weights, color_flow, no_repeat_slides, no_repeat_hours, albums, timezone, schedule_rules, slide_seconds, overlays, display_schedule } = body;
 
   if (!name || !width || !height || !orientation) {
     return c.json({ error: "Missing required fields" }, 400);
   }
 
+  if (layouts !== undefined && !isValidLayouts(layouts)) {
+    return c.json({ error: "layouts must map monotych, diptych and triptych to booleans, with at least one enabled" }, 400);
+  }
+
+  if (queue_strategy !== undefined && !isQueueStrategyName(queue_strategy)) {
+    return c.json({ error: `Unknown queue strategy: ${queue_strategy}` }, 400);
+  }
+
+  if (queue_mode !== undefined && !isQueueMode(queue_mode)) {
+    return c.json({ error: `Unknown queue mode: ${queue_mode}` }, 400);
+  }
+
+  if (layout_weights !== undefined && !isValidLayoutWeights(layout_weights)) {
+    return c.json({ error: "layout_weights must map monotych, diptych and triptych to non-negative numbers" }, 400);
+  }
+
+  if (color_flow !== undefined && (typeof color_flow !== "number" || color_flow < 0 || color_flow > 1)) {
+    return c.json({ error: "color_flow must be a number between 0 and 1" }, 400);
+  }
+
+  for (const [field, value] of Object.entries({ no_repeat_slides, no_repeat_hours })) {
+    if (value !== undefined && (typeof value !== "number" || value < 0)) {
+      return c.json({ error: `${field} must be a non-negative number` }, 400);
+    }
+  }
+
+  if (albums !== undefined && (!Array.isArray(albums) || !albums.every((id) => typeof id === "string"))) {
+    return c.json({ error: "albums must be an array of album IDs" }, 400);
+  }
+
+  if (timezone !== undefined && (typeof timezone !== "string" || !isValidTimeZone(timezone))) {
+    return c.json({ error: `Unknown time zone: ${timezone}` }, 400);
+  }
+
+  if (slide_seconds !== undefined && (typeof slide_seconds !== "number" || !Number.isInteger(slide_seconds) || slide_seconds <= 0)) {
+    return c.json({ error: "slide_seconds must be a positive integer" }, 400);
+  }
+
+  let scheduleRules: ScheduleRule[] | undefined;
+  if (schedule_rules !== undefined) {
+    try {
+      scheduleRules = parseScheduleRules(schedule_rules);
+    } catch (error) {
+      return c.json({ error: (error as Error).message }, 400);
+    }
+  }
+
+  let overlayWidgets: OverlayWidget[] | undefined;
+  if (overlays !== undefined) {
+    try {
+      overlayWidgets = parseOverlays(overlays);
+    } catch (error) {
+      return c.json({ error: (error as Error).message }, 400);
+    }
+  }
+
+  let displayPeriods: DisplayPeriod[] | undefined;
+  if (display_schedule !== undefined) {
+    try {
+      displayPeriods = parseDisplaySchedule(display_schedule);
+    } catch (error) {
+      return c.json({ error: (error as Error).message }, 400);
+    }
+  }
+
   // Check if device exists
   const existing = await getDevice(deviceId);
   if (!existing) {
     return c.json({ error: "Device not found" }, 404);
   }
 
-  await upsertDevice({
+  const device: Device = {
     ...existing,
     name,
     width,
     height,
     orientation,
-  });
+    layouts: layouts ? JSON.stringify({ ...parseLayouts(existing.layouts), ...layouts }) : existing.layouts,
+    queue_strategy: queue_strategy ?? existing.queue_strategy,
+    queue_mode: queue_mode ?? existing.queue_mode,
+    layout_weights: layout_weights ? JSON.stringify(layout_weights) : existing.layout_weights,
+    color_flow: color_flow ?? existing.color_flow,
+    no_repeat_slides: no_repeat_slides ?? existing.no_repeat_slides,
+    no_repeat_hours: no_repeat_hours ?? existing.no_repeat_hours,
+    albums: albums ?? existing.albums,
+    timezone: timezone ?? existing.timezone,
+    schedule_rules: scheduleRules ? JSON.stringify(scheduleRules) : existing.schedule_rules,
+    slide_seconds: slide_seconds ?? existing.slide_seconds,
+    overlays: overlayWidgets ? JSON.stringify(overlayWidgets) : existing.overlays,
+    display_schedule: displayPeriods ? JSON.stringify(displayPeriods) : existing.display_schedule,
+  };
+
+  await upsertDevice(device);
+
+  if (variantGeometryChanged(existing, device)) {
+    triggerBackfill(deviceId);
+  }
 
   return c.json({ success: true, deviceId });
 });
 
 // Delete device
-devices.delete("/:deviceId", async (c) => {
+devices.delete("/:deviceId", requireAuth, async (c) => {
   const deviceId = c.req.param("deviceId");
 
   // Check if device exists
@@ -390,4 +1086,32 @@ devices.delete("/:deviceId", async (c) => {
   return c.json({ success: true });
 });
 
+// Issue a new device token, invalidating the previous one
+devices.post("/:deviceId/token", requireAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+
+  const existing = await getDevice(deviceId);
+  if (!existing) {
+    return c.json({ error: "Device not found" }, 404);
+  }
+
+  const token = await issueDeviceToken(deviceId);
+
+  return c.json({ success: true, deviceId, token });
+});
+
+// Revoke the device token
+devices.delete("/:deviceId/token", requireAuth, async (c) => {
+  const deviceId = c.req.param("deviceId");
+
+  const existing = await getDevice(deviceId);
+  if (!existing) {
+    return c.json({ error: "Device not found" }, 404);
+  }
+
+  await revokeDeviceToken(deviceId);
+
+  return c.json({ success: true });
+});
+
 export default devices;
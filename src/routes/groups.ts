@@ -0,0 +1,209 @@
+import { Hono } from "hono";
+import { createDeviceGroup, deleteDeviceGroup, getAllDeviceGroups, getDevice, getDeviceGroup, updateDeviceGroup } from "../db/helpers-firestore.ts";
+import type { DeviceGroup } from "../db/types.ts";
+import { requireAuth } from "../middleware/auth.ts";
+import { DEFAULT_SLIDE_SECONDS, isGroupMode, regenerateGroupQueue } from "../services/device-groups.ts";
+import { parseArrangement, validateArrangement } from "../services/panorama.ts";
+import { startPanoramaBackfill } from "../services/variant-backfill.ts";
+
+const groups = new Hono();
+
+/**
+ * Validate group fields from a request body
+ * Returns an error message, or null when every present field is valid
+ * An arrangement is checked against the group as it will be after the change
+ */
+async function validateGroupFields(body: Record<string, unknown>, existing?: DeviceGroup): Promise<string | null> {
+  const { name, device_ids, mode, slide_seconds, arrangement } = body;
+
+  if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+    return "name must be a non-empty string";
+  }
+  if (mode !== undefined && !isGroupMode(mode)) {
+    return `Unknown group mode: ${mode}`;
+  }
+  if (slide_seconds !== undefined && (typeof slide_seconds !== "number" || !Number.isInteger(slide_seconds) || slide_seconds <= 0)) {
+    return "slide_seconds must be a positive integer";
+  }
+  if (device_ids !== undefined) {
+    if (!Array.isArray(device_ids) || !device_ids.every((id) => typeof id === "string") || new Set(device_ids).size !== device_ids.length) {
+      return "device_ids must be an array of unique device IDs";
+    }
+    const devices = await Promise.all(device_ids.map((id: string) => getDevice(id)));
+    const missing = device_ids.filter((_id: string, index: number) => !devices[index]);
+    if (missing.length > 0) {
+      return `Unknown devices: ${missing.join(", ")}`;
+    }
+  }
+  if (arrangement !== undefined && arrangement !== null) {
+    if ((mode ?? existing?.mode) !== "lockstep") {
+      return "arrangement is only supported for lockstep groups";
+    }
+    try {
+      validateArrangement(arrangement, (device_ids as string[] | undefined) ?? existing?.device_ids ?? []);
+    } catch (error) {
+      return (error as Error).message;
+    }
+  } else if (arrangement === undefined && device_ids !== undefined && existing?.arrangement) {
+    try {
+      validateArrangement(parseArrangement(existing.arrangement), device_ids as string[]);
+    } catch {
+      return "device_ids no longer match the group's arrangement; send an updated arrangement, or null to remove it";
+    }
+  }
+  return null;
+}
+
+/**
+ * Regenerate a group's queue after a change, without holding up the response
+ */
+function triggerRegeneration(group: DeviceGroup): void {
+  regenerateGroupQueue(group).catch((error) => {
+    console.error(`Failed to regenerate queue for device group ${group.id}:`, error);
+  });
+}
+
+/**
+ * Re-slice panoramas after a group's arrangement changes, without holding up the response
+ */
+function triggerPanoramaBackfill(groupId: string): void {
+  startPanoramaBackfill(groupId, { replaceAll: true }).catch((error) => {
+    console.error(`Failed to start panorama backfill for device group ${groupId}:`, error);
+  });
+}
+
+/**
+ * List device groups
+ * GET /api/admin/groups
+ */
+groups.get("/", async (c) => {
+  return c.json(await getAllDeviceGroups());
+});
+
+/**
+ * Create device group
+ * POST /api/admin/groups
+ */
+groups.post("/", requireAuth, async (c) => {
+  const body = await c.req.json();
+  const { name, device_ids, mode, slide_seconds, arrangement } = body;
+
+  if (!name || !mode) {
+    return c.json({ error: "Missing required fields: name, mode" }, 400);
+  }
+
+  const error = await validateGroupFields(body);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
+  const id = await createDeviceGroup({
+    name: name.trim(),
+    device_ids: device_ids ?? [],
+    mode,
+    slide_seconds: slide_seconds ?? DEFAULT_SLIDE_SECONDS,
+    arrangement: arrangement ? JSON.stringify(arrangement) : undefined,
+  });
+
+  if (arrangement) {
+    triggerPanoramaBackfill(id);
+  }
+
+  const group = await getDeviceGroup(id);
+  if (group) {
+    triggerRegeneration(group);
+  }
+
+  return c.json({ success: true, groupId: id }, 201);
+});
+
+/**
+ * Get device group
+ * GET /api/admin/groups/:groupId
+ */
+groups.get("/:groupId", async (c) => {
+  const group = await getDeviceGroup(c.req.param("groupId"));
+
+  if (!group) {
+    return c.json({ error: "Device group not found" }, 404);
+  }
+
+  return c.json(group);
+});
+
+/**
+ * Update device group settings or membership
+ * PUT /api/admin/groups/:groupId
+ */
+groups.put("/:groupId", requireAuth, async (c) => {
+  const groupId = c.req.param("groupId");
+  const body = await c.req.json();
+  const { name, device_ids, mode, slide_seconds, arrangement } = body;
+
+  const existing = await getDeviceGroup(groupId);
+  if (!existing) {
+    return c.json({ error: "Device group not found" }, 404);
+  }
+
+  const error = await validateGroupFields(body, existing);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
+  // null removes the arrangement
+  const arrangementJson = arrangement === undefined ? undefined : arrangement === null ? null : JSON.stringify(arrangement);
+
+  await updateDeviceGroup(groupId, {
+    name: name?.trim(),
+    device_ids,
+    mode,
+    slide_seconds,
+    arrangement: arrangementJson,
+  });
+
+  if (arrangementJson !== undefined && arrangementJson !== (existing.arrangement ?? null)) {
+    triggerPanoramaBackfill(groupId);
+  }
+
+  const group = await getDeviceGroup(groupId);
+  if (group) {
+    triggerRegeneration(group);
+  }
+
+  return c.json({ success: true, groupId });
+});
+
+/**
+ * Delete device group (members go back to their own queues)
+ * DELETE /api/admin/groups/:groupId
+ */
+groups.delete("/:groupId", requireAuth, async (c) => {
+  const groupId = c.req.param("groupId");
+
+  const existing = await getDeviceGroup(groupId);
+  if (!existing) {
+    return c.json({ error: "Device group not found" }, 404);
+  }
+
+  await deleteDeviceGroup(groupId);
+
+  return c.json({ success: true });
+});
+
+/**
+ * Regenerate the group queue now
+ * POST /api/admin/groups/:groupId/regenerate
+ */
+groups.post("/:groupId/regenerate", requireAuth, async (c) => {
+  const group = await getDeviceGroup(c.req.param("groupId"));
+
+  if (!group) {
+    return c.json({ error: "Device group not found" }, 404);
+  }
+
+  const queue = await regenerateGroupQueue(group);
+
+  return c.json({ success: true, groupId: group.id, mode: group.mode, slides: queue.slides.length });
+});
+
+export default groups;
@@ -1,19 +1,27 @@
 import { Hono } from "hono";
 import { Collections, getFirestore } from "../db/firestore.ts";
-import { createBlob, createDeviceVariant, updateSource } from "../db/helpers-firestore.ts";
+import { createBlob, createDeviceVariant, getSource, updateSource } from "../db/helpers-firestore.ts";
 import { generateImageAnalysis } from "../services/ai.ts";
+import { getDitherProfile, type DitherProfile } from "../services/eink.ts";
+import { getReadableUrl } from "../services/image-delivery.ts";
+import { getSpanArrangements, type SpanArrangement } from "../services/panorama.ts";
+import { parseLayouts, type Layouts } from "../services/slideshow-queue.ts";
 
 const processing = new Hono();
 
 type ProcessingStartResponse = {
   attempt: number;
   devices: Array<{
+    id: string;
     name: string;
     width: number;
     height: number;
     orientation: string;
     gap: number;
+    layouts: Layouts;
+    eink?: DitherProfile;
   }>;
+  spans: SpanArrangement[];
 };
 
 processing.use("/:imageId/start", async (c) => {
@@ -31,6 +39,8 @@ processing.use("/:imageId/start", async (c) => {
       height: data.height,
       orientation: data.orientation,
       gap: data.gap,
+      layouts: parseLayouts(data.layouts),
+      eink: getDitherProfile(data.capabilities),
       last_seen: data.last_seen || null,
     };
   });
@@ -38,6 +48,7 @@ processing.use("/:imageId/start", async (c) => {
   return c.json({
     attempt: 1,
     devices,
+    spans: await getSpanArrangements(),
     source: sourceDoc.data()
   } as ProcessingStartResponse);
 });
@@ -53,7 +64,17 @@ export type ProcessingResult = {
     orientation: "portrait" | "landscape" | "square";
     file_size: number;
     mime_type: string;
-    exif_data: string | null;
+    exif: {
+      taken_at?: string;
+      camera_make?: string;
+      camera_model?: string;
+      lens_model?: string;
+      gps?: {
+        latitude: number;
+        longitude: number;
+        altitude?: number;
+      };
+    } | null;
   };
   colorData?: {
     palette: string;
@@ -64,12 +85,15 @@ export type ProcessingResult = {
 
 type LayoutType = "monotych" | "diptych" | "triptych";
 
-type Variant = {
+export type Variant = {
   device: string;
   width: number;
   height: number;
   orientation: "portrait" | "landscape" | "square";
-  layout_type: LayoutType;
+  layout_type: LayoutType | "panorama";
+  group_id?: string;
+  format?: "png" | "packed";
+  profile?: string;
   storage_path: string;
   file_size: number;
 };
@@ -87,6 +111,11 @@ processing.post("/:imageId/complete", async (c) => {
     return c.json({ success: true });
   }
 
+  // Fall back to what the origin reported when the file carries no EXIF date or camera
+  const exif = result.blobData!.exif ?? {};
+  const source = !exif.taken_at || !exif.camera_model ? await getSource(c.req.param("imageId")) : undefined;
+  const takenAt = exif.taken_at ?? source?.external_created_at;
+
   await createBlob({
     hash: result.blobHash!,
     storage_path: result.blobData!.storage_path,
@@ -96,12 +125,17 @@ processing.post("/:imageId/complete", async (c) => {
     orientation: result.blobData!.orientation,
     file_size: result.blobData!.file_size,
     mime_type: result.blobData!.mime_type,
-    exif_data: result.blobData!.exif_data,
+    taken_at: takenAt,
+    taken_at_source: exif.taken_at ? "exif" : takenAt ? "google_photos" : undefined,
+    camera_make: exif.camera_make ?? source?.camera_make,
+    camera_model: exif.camera_model ?? source?.camera_model,
+    lens_model: exif.lens_model,
+    gps: exif.gps,
     color_source: result.colorData?.source,
     color_palette: result.colorData?.palette
   });
 
-  generateImageAnalysis(result.blobHash!, result.blobData!.storage_path.replace("gs://", "https://storage.googleapis.com/")).catch((error) => {
+  getReadableUrl(result.blobData!.storage_path).then((url) => generateImageAnalysis(result.blobHash!, url)).catch((error) => {
     console.error(`[Processing] Failed to generate image analysis for blob ${result.blobHash}:`, error);
   });
 
@@ -113,6 +147,9 @@ processing.post("/:imageId/complete", async (c) => {
       height: variant.height,
       orientation: variant.orientation,
       layout_type: variant.layout_type,
+      group_id: variant.group_id,
+      format: variant.format,
+      profile: variant.profile,
       storage_path: variant.storage_path,
       file_size: variant.file_size,
     });
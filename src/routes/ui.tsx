@@ -1,9 +1,13 @@
 import { Hono } from "hono";
 import { Collections, getFirestore } from "../db/firestore.ts";
-import { countVariantsForBlob, getActivePickerSession, getAllDevices, getBlob, getDeviceVariantsForBlob, getSourcesForBlob } from "../db/helpers-firestore.ts";
+import { countVariantsForBlob, getActivePickerSession, getAllAlbums, getAllDeviceCredentials, getAllDevices, getDeviceTelemetry, getBlob, getDeviceVariantsForBlob, getSourcesForBlob } from "../db/helpers-firestore.ts";
 import { getUserId } from "../middleware/auth.ts";
+import { getCredentialStatus } from "../services/device-credentials.ts";
+import { getDeviceStatus } from "../services/device-health.ts";
 import { runJob } from "../services/jobs.ts";
+import { parseLayouts } from "../services/slideshow-queue.ts";
 import { createReadStream } from "../services/storage.ts";
+import { Albums } from "../views/albums.tsx";
 import { Devices } from "../views/devices.tsx";
 import { Home } from "../views/home.tsx";
 import { Images } from "../views/images.tsx";
@@ -63,10 +67,17 @@ ui.get("/devices", async (c) => {
   try {
     const db = getFirestore();
 
-    const devicesSnapshot = await db.collection(Collections.DEVICES).orderBy("created_at", "desc").get();
+    const [devicesSnapshot, albums, credentials] = await Promise.all([
+      db.collection(Collections.DEVICES).orderBy("created_at", "desc").get(),
+      getAllAlbums(),
+      getAllDeviceCredentials(),
+    ]);
 
-    const devices = devicesSnapshot.docs.map((doc) => {
+    const latestTelemetry = await Promise.all(devicesSnapshot.docs.map(async (doc) => (await getDeviceTelemetry(doc.id, 1))[0]));
+
+    const devices = devicesSnapshot.docs.map((doc, index) => {
       const data = doc.data();
+      const telemetry = latestTelemetry[index];
       return {
         id: doc.id,
         name: data.name,
@@ -75,13 +86,44 @@ ui.get("/devices", async (c) => {
         orientation: data.orientation,
         created_at: data.created_at,
         last_seen: data.last_seen || null,
+        status: getDeviceStatus({ last_seen: data.last_seen, poll_interval: data.poll_interval }),
+        telemetry: telemetry
+          ? {
+              version: telemetry.version ?? null,
+              battery: telemetry.battery?.percent ?? null,
+              wifi_rssi: telemetry.wifi_rssi ?? null,
+              last_error: telemetry.last_error ?? null,
+              restarted: telemetry.restarted,
+            }
+          : null,
+        albums: data.albums || [],
+        layouts: parseLayouts(data.layouts),
+        credential: getCredentialStatus(credentials.get(doc.id)),
+        token_issued_at: credentials.get(doc.id)?.issued_at || null,
       };
     });
 
-    return c.html(<Devices devices={devices} />);
+    return c.html(<Devices devices={devices} albums={albums.map((album) => ({ id: album.id, name: album.name }))} />);
   } catch (error) {
     console.error("Error loading devices page:", error);
-    return c.html(<Devices devices={[]} error="Failed to load devices. Check Firestore security rules and authentication." />);
+    return c.html(<Devices devices={[]} albums={[]} error="Failed to load devices. Check Firestore security rules and authentication." />);
+  }
+});
+
+// Albums page
+ui.get("/albums", async (c) => {
+  try {
+    const [albums, devices] = await Promise.all([getAllAlbums(), getAllDevices()]);
+
+    const albumsWithDevices = albums.map((album) => ({
+      ...album,
+      devices: devices.filter((device) => device.albums?.includes(album.id)).map((device) => device.name || device.id),
+    }));
+
+    return c.html(<Albums albums={albumsWithDevices} />);
+  } catch (error) {
+    console.error("Error loading albums page:", error);
+    return c.html(<Albums albums={[]} error="Failed to load albums. Check Firestore security rules and authentication." />);
   }
 });
 
@@ -1,6 +1,7 @@
 import { GoogleGenAI, createPartFromUri, createUserContent } from "@google/genai";
 import { listBlobs, listUnanalyzedBlobs, updateBlob } from "../db/helpers-firestore";
 import { FieldValue } from "@google-cloud/firestore";
+import { getReadableUrl } from "./image-delivery.ts";
 
 export async function generateImageAnalysis(hash: string, fileUri: string, skipBlobUpdate: boolean = false): Promise<AIAnalysis | undefined> {
   const ai = new GoogleGenAI({
@@ -329,7 +330,7 @@ export async function analyzeAllUnanalyzedImages() {
   for (const blob of unanalyzedBlobs) {
     try {
       console.log(`Analyzing blob ${blob.hash}...`);
-      await generateImageAnalysis(blob.hash, blob.storage_path.replace("gs://", "https://storage.googleapis.com/"));
+      await generateImageAnalysis(blob.hash, await getReadableUrl(blob.storage_path));
       console.log(`Successfully analyzed blob ${blob.hash}.`);
     } catch (error) {
       console.error(`Failed to analyze blob ${blob.hash}:`, error);
@@ -352,7 +353,7 @@ export async function reanalyzeAllImages() {
     }
     try {
       console.log(`Analyzing blob ${blob.hash}...`);
-      await generateImageAnalysis(blob.hash, blob.storage_path.replace("gs://", "https://storage.googleapis.com/"));
+      await generateImageAnalysis(blob.hash, await getReadableUrl(blob.storage_path));
       console.log(`Successfully analyzed blob ${blob.hash}.`);
     } catch (error) {
       console.error(`Failed to analyze blob ${blob.hash}:`, error);
@@ -171,7 +171,7 @@ export async function updateSessionTokens(
  * Simple encryption for tokens using crypto
  * In production, consider using a proper encryption library with key management
  */
-function encryptToken(token: string): string {
+export function encryptToken(token: string): string {
   const key = process.env.ENCRYPTION_KEY || "default-key-change-in-production";
   const encoder = new TextEncoder();
   const data = encoder.encode(token);
@@ -189,7 +189,7 @@ function encryptToken(token: string): string {
 /**
  * Simple decryption for tokens
  */
-function decryptToken(encryptedHex: string): string {
+export function decryptToken(encryptedHex: string): string {
   const key = process.env.ENCRYPTION_KEY || "default-key-change-in-production";
   const encoder = new TextEncoder();
   const decoder = new TextDecoder();
@@ -0,0 +1,22 @@
+/**
+ * Material color schemes
+ * Roles derived from an image's source color, shared by the scheme API and rendered overlays
+ */
+
+import { argbFromHex, hexFromArgb, themeFromSourceColor } from "@material/material-color-utilities";
+
+/**
+ * Light Material scheme for a source color, as hex colors by role (primary, onPrimary, surface, onSurface, …)
+ * Each on* role is readable on its pair
+ */
+export function getLightScheme(sourceColor: string): Record<string, string> {
+  const theme = themeFromSourceColor(argbFromHex(sourceColor));
+
+  const schemeJson = theme.schemes.light.toJSON();
+  const light: Record<string, string> = {};
+  for (const key in schemeJson) {
+    light[key] = hexFromArgb(schemeJson[key]);
+  }
+
+  return light;
+}
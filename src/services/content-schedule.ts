@@ -0,0 +1,237 @@
+/**
+ * Content schedule service
+ * Per-device rules that bias or restrict queue content by AI mood and time of day,
+ * evaluated against the device's local time
+ */
+
+import type { AIAnalysis } from "./ai.ts";
+
+export type ScheduleRuleMode = "bias" | "restrict";
+
+export type ScheduleRule = {
+  name: string;
+  start: string; // "HH:MM" local time, inclusive
+  end: string; // "HH:MM" local time, exclusive; earlier than start wraps past midnight
+  days?: number[]; // 0 = Sunday; omitted means every day
+  time_of_day?: string[]; // Matches AIAnalysis image_analysis.time_of_day
+  mood?: string[]; // Matches AIAnalysis image_analysis.mood
+  mode: ScheduleRuleMode;
+  weight?: number; // Bias multiplier for matching images (bias mode only)
+};
+
+// The time window part of a rule, shared with display schedules
+export type ScheduleWindow = Pick<ScheduleRule, "start" | "end" | "days">;
+
+export type ActiveScheduleRule = {
+  name: string;
+  mode: ScheduleRuleMode;
+};
+
+export type LocalTime = {
+  day: number; // 0 = Sunday
+  minutes: number; // Minutes since local midnight
+};
+
+export type LocalDate = {
+  year: number;
+  month: number; // 1-12
+  day: number; // 1-31
+};
+
+export const DEFAULT_BIAS_WEIGHT = 3;
+const MAX_BIAS_WEIGHT = 20;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Check whether a string is an IANA time zone this runtime understands
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the weekday and minutes since midnight in a time zone (UTC when unset)
+ */
+export function getLocalTime(timezone: string | undefined, date: Date = new Date()): LocalTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone || "UTC",
+    hourCycle: "h23",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+
+  const part = (type: string): string => parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    day: WEEKDAYS.indexOf(part("weekday")),
+    minutes: parseInt(part("hour"), 10) * 60 + parseInt(part("minute"), 10),
+  };
+}
+
+/**
+ * Get the calendar date in a time zone (UTC when unset)
+ */
+export function getLocalDate(timezone: string | undefined, date: Date = new Date()): LocalDate {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone || "UTC",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(date);
+
+  const part = (type: string): number => parseInt(parts.find((p) => p.type === type)?.value ?? "", 10);
+
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+  };
+}
+
+/**
+ * Minutes since midnight for an "HH:MM" time
+ */
+export function parseTime(value: string): number {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) {
+    throw new Error(`Invalid time "${value}", expected HH:MM`);
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Validate rules from a request body
+ * Throws with a readable message on the first invalid rule
+ */
+export function parseScheduleRules(value: unknown): ScheduleRule[] {
+  if (!Array.isArray(value)) {
+    throw new Error("schedule_rules must be an array");
+  }
+
+  return value.map((raw, index) => {
+    const rule = raw as Partial<ScheduleRule>;
+    const label = `schedule_rules[${index}]`;
+
+    if (!rule || typeof rule.name !== "string" || !rule.name) {
+      throw new Error(`${label}.name is required`);
+    }
+    if (typeof rule.start !== "string" || typeof rule.end !== "string") {
+      throw new Error(`${label} needs start and end times`);
+    }
+    parseTime(rule.start);
+    parseTime(rule.end);
+    if (rule.mode !== "bias" && rule.mode !== "restrict") {
+      throw new Error(`${label}.mode must be "bias" or "restrict"`);
+    }
+    if (rule.days !== undefined && (!Array.isArray(rule.days) || !rule.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))) {
+      throw new Error(`${label}.days must contain weekdays 0-6`);
+    }
+    for (const field of ["time_of_day", "mood"] as const) {
+      const list = rule[field];
+      if (list !== undefined && (!Array.isArray(list) || !list.every((entry) => typeof entry === "string"))) {
+        throw new Error(`${label}.${field} must be an array of strings`);
+      }
+    }
+    if (!rule.time_of_day?.length && !rule.mood?.length) {
+      throw new Error(`${label} must match on time_of_day or mood`);
+    }
+    if (rule.weight !== undefined && (typeof rule.weight !== "number" || rule.weight < 1)) {
+      throw new Error(`${label}.weight must be a number of at least 1`);
+    }
+
+    return {
+      name: rule.name,
+      start: rule.start,
+      end: rule.end,
+      days: rule.days,
+      time_of_day: rule.time_of_day,
+      mood: rule.mood,
+      mode: rule.mode,
+      weight: rule.weight,
+    };
+  });
+}
+
+/**
+ * Check whether a rule's time window covers a local time
+ */
+export function isRuleActive(rule: ScheduleWindow, localTime: LocalTime): boolean {
+  const start = parseTime(rule.start);
+  const end = parseTime(rule.end);
+
+  let day = localTime.day;
+  let inWindow: boolean;
+
+  if (start < end) {
+    inWindow = localTime.minutes >= start && localTime.minutes < end;
+  } else {
+    // Window wraps past midnight; the early-morning half belongs to the previous day's rule
+    inWindow = localTime.minutes >= start || localTime.minutes < end;
+    if (localTime.minutes < end) {
+      day = (day + 6) % 7;
+    }
+  }
+
+  return inWindow && (!rule.days || rule.days.includes(day));
+}
+
+/**
+ * Find the first rule active at the given local time
+ */
+export function findActiveRule<T extends ScheduleWindow>(rules: T[], localTime: LocalTime): T | undefined {
+  return rules.find((rule) => isRuleActive(rule, localTime));
+}
+
+function matchesAny(value: string | undefined, patterns: string[] | undefined): boolean {
+  if (!patterns?.length) {
+    return true;
+  }
+  if (!value) {
+    return false;
+  }
+  const normalized = value.toLowerCase();
+  return patterns.some((pattern) => normalized.includes(pattern.trim().toLowerCase()));
+}
+
+/**
+ * Check whether an image's AI analysis satisfies a rule (all listed attributes must match)
+ */
+export function matchesRule(analysis: AIAnalysis | undefined, rule: ScheduleRule): boolean {
+  if (!analysis) {
+    return false;
+  }
+  return matchesAny(analysis.image_analysis.time_of_day, rule.time_of_day) && matchesAny(analysis.image_analysis.mood, rule.mood);
+}
+
+/**
+ * How many times a matching image should be entered into the candidate pool for a bias rule
+ */
+export function getBiasWeight(rule: ScheduleRule): number {
+  return Math.min(MAX_BIAS_WEIGHT, Math.round(rule.weight ?? DEFAULT_BIAS_WEIGHT));
+}
+
+/**
+ * Time at which the active rule may next change (the nearest rule start or end)
+ */
+export function getNextRuleChange(rules: ScheduleWindow[], localTime: LocalTime, now: Date = new Date()): Date | undefined {
+  if (rules.length === 0) {
+    return undefined;
+  }
+
+  const minutesUntil = Math.min(
+    ...rules.flatMap((rule) => [parseTime(rule.start), parseTime(rule.end)]).map((boundary) => (boundary - localTime.minutes + 1440) % 1440 || 1440)
+  );
+
+  // Align to the start of the boundary minute
+  const next = new Date(now.getTime() + minutesUntil * 60 * 1000);
+  next.setUTCSeconds(0, 0);
+  return next;
+}
@@ -0,0 +1,105 @@
+/**
+ * Remote control commands
+ * Admins queue commands for a frame; the server applies its side straight away (moving the cursor,
+ * pinning, regenerating) and the frame picks the command up on its next fetch and acknowledges it
+ */
+
+import { Timestamp } from "@google-cloud/firestore";
+import { claimDeviceCommands, createDeviceCommand, getDeviceGroup, rewindDeviceQueueCursor, setDeviceQueuePin } from "../db/helpers-firestore.ts";
+import type { Device, DeviceCommand, DeviceGroup } from "../db/types.ts";
+import { regenerateGroupQueue } from "./device-groups.ts";
+import { generateSlideshowQueue, saveQueueState } from "./slideshow-queue.ts";
+
+export type CommandType = "skip" | "previous" | "pause" | "resume" | "pin" | "unpin" | "refresh";
+
+const COMMAND_TYPES: CommandType[] = ["skip", "previous", "pause", "resume", "pin", "unpin", "refresh"];
+
+// A command the device hasn't fetched within this window is dropped rather than acted on late
+const DELIVERY_WINDOW_SECONDS = 15 * 60;
+
+// Delivered commands are handed out again if the device hasn't acknowledged them in this time
+const REDELIVERY_SECONDS = 60;
+
+// Commands are kept for this long before Firestore TTL deletes them
+const COMMAND_RETENTION_DAYS = 7;
+
+export function isCommandType(value: unknown): value is CommandType {
+  return typeof value === "string" && COMMAND_TYPES.includes(value as CommandType);
+}
+
+/**
+ * Why a device in `group` can't follow a command, or undefined when it can
+ */
+export function getCommandConflict(group: DeviceGroup | undefined, type: CommandType): string | undefined {
+  if (group?.mode === "lockstep" && (type === "previous" || type === "pin")) {
+    return `${type} is not available while the device plays in lockstep group ${group.name}`;
+  }
+  return undefined;
+}
+
+/**
+ * Apply the server's side of a command and queue it for the device
+ * previous: the next item handed out is the one before the current; pin: the current item is handed out until unpin;
+ * refresh: the queue is regenerated now. Throws for commands lockstep group members can't follow
+ */
+export async function queueDeviceCommand(device: Device, type: CommandType): Promise<DeviceCommand> {
+  const group = device.group_id ? await getDeviceGroup(device.group_id) : undefined;
+
+  const conflict = getCommandConflict(group, type);
+  if (conflict) {
+    throw new Error(conflict);
+  }
+
+  switch (type) {
+    case "previous":
+      // The cursor points past the item on screen, so step back over it and the one before
+      await rewindDeviceQueueCursor(device.id, 2);
+      break;
+    case "pin":
+    case "unpin":
+      await setDeviceQueuePin(device.id, type === "pin");
+      break;
+    case "refresh":
+      if (group) {
+        await regenerateGroupQueue(group);
+      } else {
+        await saveQueueState(await generateSlideshowQueue(device.id));
+      }
+      break;
+  }
+
+  const now = new Date();
+  const command = await createDeviceCommand({
+    device_id: device.id,
+    type,
+    status: "pending",
+    deliver_until: new Date(now.getTime() + DELIVERY_WINDOW_SECONDS * 1000).toISOString(),
+    expire_at: Timestamp.fromDate(new Date(now.getTime() + COMMAND_RETENTION_DAYS * 24 * 60 * 60 * 1000)),
+  });
+
+  console.log(`Queued ${type} command ${command.id} for device ${device.id}`);
+
+  return command;
+}
+
+/**
+ * Hand a device the commands waiting for it, marking them delivered
+ */
+export async function takeDeviceCommands(deviceId: string): Promise<DeviceCommand[]> {
+  return claimDeviceCommands(deviceId, new Date(Date.now() - REDELIVERY_SECONDS * 1000).toISOString());
+}
+
+/**
+ * Command as sent to the device
+ */
+export function toDeviceCommandResponse(command: DeviceCommand): { id: string; type: CommandType; created_at: string } {
+  return { id: command.id, type: command.type, created_at: command.created_at };
+}
+
+/**
+ * Command as returned to admins, without the storage-only TTL field
+ */
+export function toCommandResponse(command: DeviceCommand): Omit<DeviceCommand, "expire_at"> {
+  const { expire_at: _expireAt, ...rest } = command;
+  return rest;
+}
@@ -0,0 +1,97 @@
+/**
+ * Device credentials
+ * Each device holds a random token issued at registration; requests carry it as a bearer token
+ * or use it as the key for an HMAC signature so the token never crosses the wire
+ */
+
+import { Buffer } from "node:buffer";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { getDeviceCredential, setDeviceCredential } from "../db/helpers-firestore.ts";
+import type { DeviceCredential } from "../db/types.ts";
+import { decryptToken, encryptToken } from "./auth.ts";
+
+export type CredentialStatus = "active" | "revoked" | "none";
+
+// Signed requests older or newer than this are rejected to limit replays
+export const SIGNATURE_MAX_SKEW_SECONDS = 300;
+
+/**
+ * Describe a credential record for the devices UI
+ */
+export function getCredentialStatus(credential: DeviceCredential | undefined): CredentialStatus {
+  if (credential?.secret) {
+    return "active";
+  }
+  return credential?.revoked_at ? "revoked" : "none";
+}
+
+/**
+ * Issue a new token for a device, replacing any previous one
+ * Returns the plain token; only an encrypted copy is stored
+ */
+export async function issueDeviceToken(deviceId: string): Promise<string> {
+  const token = randomBytes(32).toString("hex");
+
+  await setDeviceCredential({
+    device_id: deviceId,
+    secret: encryptToken(token),
+    issued_at: new Date().toISOString(),
+  });
+
+  return token;
+}
+
+/**
+ * Revoke a device's token; the device is locked out until an admin issues a new one
+ */
+export async function revokeDeviceToken(deviceId: string): Promise<void> {
+  const credential = await getDeviceCredential(deviceId);
+
+  await setDeviceCredential({
+    device_id: deviceId,
+    issued_at: credential?.issued_at,
+    revoked_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * The string a device signs: method, path and Unix timestamp, newline separated
+ */
+function signingPayload(method: string, path: string, timestamp: string): string {
+  return `${method.toUpperCase()}\n${path}\n${timestamp}`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Check a bearer token against the device's active credential
+ */
+export async function verifyDeviceToken(deviceId: string, token: string): Promise<boolean> {
+  const credential = await getDeviceCredential(deviceId);
+  if (!credential?.secret) {
+    return false;
+  }
+  return safeEqual(decryptToken(credential.secret), token);
+}
+
+/**
+ * Check an HMAC-SHA256 signature (hex) of the signing payload, keyed with the device token
+ */
+export async function verifyDeviceSignature(deviceId: string, method: string, path: string, timestamp: string, signature: string): Promise<boolean> {
+  const seconds = Number(timestamp);
+  if (!Number.isInteger(seconds) || Math.abs(Date.now() / 1000 - seconds) > SIGNATURE_MAX_SKEW_SECONDS) {
+    return false;
+  }
+
+  const credential = await getDeviceCredential(deviceId);
+  if (!credential?.secret) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", decryptToken(credential.secret)).update(signingPayload(method, path, timestamp)).digest("hex");
+  return safeEqual(expected, signature.toLowerCase());
+}
@@ -0,0 +1,297 @@
+/**
+ * Device groups
+ * Frames in one room play as a group: either distinct images that share a color theme on each slide,
+ * or one shared sequence that every member advances through on a common clock
+ * Every member is served the variant at its own resolution; lockstep groups with an arrangement
+ * also show panoramas, each member getting its slice of the image on the same slide
+ */
+
+import { getAlbums, getBlob, getDevice, getDeviceGroupQueue, getPanoramaVariantsForGroup, getVariantsForDevice, replaceDeviceGroupQueue } from "../db/helpers-firestore.ts";
+import type { DeviceGroup, DeviceVariant } from "../db/types.ts";
+import { calculatePaletteSimilarity, paletteFromColors } from "./color-palette.ts";
+import { shuffleArray } from "./queue-strategies.ts";
+import { generateSlideshowQueue, saveGroupQueueStates, type GenerateQueueOptions, type QueueItem } from "./slideshow-queue.ts";
+
+export type GroupMode = "themed" | "lockstep";
+
+export type GroupQueue = {
+  groupId: string;
+  mode: GroupMode;
+  slides: Record<string, QueueItem>[]; // Each member's item for the slide, keyed by device ID
+  generatedAt: string;
+  scheduleValidUntil?: string;
+};
+
+export type LockstepSlide = {
+  index: number; // Shared slide index
+  changesAt: string; // ISO timestamp when every member moves to the next slide
+  items: QueueItem[]; // This member's items from the current slide on
+};
+
+const GROUP_MODES: GroupMode[] = ["themed", "lockstep"];
+
+export const DEFAULT_SLIDE_SECONDS = 60;
+
+// Followers' queues are generated this much larger than the group queue so each slide finds a close color match
+const THEMED_OVERSAMPLE = 3;
+
+// Lockstep groups with an arrangement show a panorama after this many regular slides
+const PANORAMA_INTERVAL = 3;
+
+export function isGroupMode(value: unknown): value is GroupMode {
+  return typeof value === "string" && GROUP_MODES.includes(value as GroupMode);
+}
+
+function themeDistance(theme: string | undefined, color: string | undefined): number {
+  // Items without color data sit in the middle so they neither attract nor repel
+  if (!theme || !color) {
+    return 0.5;
+  }
+  return calculatePaletteSimilarity(paletteFromColors([], theme), paletteFromColors([], color));
+}
+
+function blobHashesOf(item: QueueItem): string[] {
+  return item.images.flatMap((image) => (image.blob_hash ? [image.blob_hash] : []));
+}
+
+function earliest(timestamps: (string | undefined)[]): string | undefined {
+  return timestamps.filter((timestamp): timestamp is string => !!timestamp).sort()[0];
+}
+
+/**
+ * Build slides of distinct images that share the leader's source color
+ * Each member's column is saved as its own device queue, so members keep using the normal queue endpoints;
+ * all columns share one queue ID and are saved together, unless `expected` shows another member got there first
+ */
+async function generateThemedQueue(
+  group: DeviceGroup,
+  queueSize: number,
+  options: GenerateQueueOptions,
+  expected?: { deviceId: string; queueId: string | null }
+): Promise<GroupQueue> {
+  const memberQueues = await Promise.all(group.device_ids.map((deviceId, index) => generateSlideshowQueue(deviceId, index === 0 ? queueSize : queueSize * THEMED_OVERSAMPLE, options)));
+  const [leader, ...followers] = memberQueues;
+  const remaining = followers.map((queue) => [...queue.queue]);
+
+  const slides: Record<string, QueueItem>[] = [];
+  for (const item of leader.queue) {
+    const slide: Record<string, QueueItem> = { [leader.deviceId]: item };
+    const used = new Set(blobHashesOf(item));
+
+    for (const [index, follower] of followers.entries()) {
+      let bestIndex = -1;
+      let bestDistance = Infinity;
+      remaining[index].forEach((candidate, candidateIndex) => {
+        const distance = themeDistance(item.source_color, candidate.source_color);
+        if (distance < bestDistance && !blobHashesOf(candidate).some((hash) => used.has(hash))) {
+          bestDistance = distance;
+          bestIndex = candidateIndex;
+        }
+      });
+
+      if (bestIndex === -1) {
+        break;
+      }
+
+      const [chosen] = remaining[index].splice(bestIndex, 1);
+      slide[follower.deviceId] = chosen;
+      blobHashesOf(chosen).forEach((hash) => used.add(hash));
+    }
+
+    // Stop once any member runs out of distinct images so every slide covers the whole group
+    if (Object.keys(slide).length < memberQueues.length) {
+      break;
+    }
+    slides.push(slide);
+  }
+
+  await saveGroupQueueStates(
+    memberQueues.map((queue) => ({
+      ...queue,
+      queue: slides.map((slide) => slide[queue.deviceId]),
+      currentIndex: 0,
+      scheduleValidUntil: earliest(memberQueues.map((memberQueue) => memberQueue.scheduleValidUntil)),
+    })),
+    expected
+  );
+
+  return {
+    groupId: group.id,
+    mode: group.mode,
+    slides,
+    generatedAt: leader.generatedAt,
+    scheduleValidUntil: earliest(memberQueues.map((queue) => queue.scheduleValidUntil)),
+  };
+}
+
+/**
+ * Build a slide for each image the group has a complete set of panorama slices for, in shuffled order
+ * Follows the leader's albums like the rest of the queue
+ */
+async function generatePanoramaSlides(group: DeviceGroup, options: GenerateQueueOptions): Promise<Record<string, QueueItem>[]> {
+  if (!group.arrangement) {
+    return [];
+  }
+
+  const [variants, leader] = await Promise.all([getPanoramaVariantsForGroup(group.id), getDevice(group.device_ids[0])]);
+  const albumBlobHashes = leader?.albums?.length ? new Set((await getAlbums(leader.albums)).flatMap((album) => album.blob_hashes)) : null;
+
+  const slicesByBlob = new Map<string, Map<string, DeviceVariant>>();
+  for (const variant of variants) {
+    if (albumBlobHashes && !albumBlobHashes.has(variant.blob_hash)) {
+      continue;
+    }
+    const slices = slicesByBlob.get(variant.blob_hash) ?? new Map<string, DeviceVariant>();
+    slices.set(variant.device, variant);
+    slicesByBlob.set(variant.blob_hash, slices);
+  }
+
+  const complete = [...slicesByBlob.entries()].filter(([, slices]) => group.device_ids.every((deviceId) => slices.has(deviceId)));
+  const blobs = await Promise.all(complete.map(([hash]) => getBlob(hash)));
+
+  return shuffleArray(
+    complete.map(([hash, slices], index) => {
+      const sourceColor = blobs[index]?.color_source;
+      const slide: Record<string, QueueItem> = {};
+      for (const deviceId of group.device_ids) {
+        slide[deviceId] = {
+          layoutType: "panorama",
+          images: [{ url: slices.get(deviceId)!.storage_path.replace(/^gs:\/\//, "https://storage.googleapis.com/"), blob_hash: hash, source_color: sourceColor }],
+          source_color: sourceColor,
+        };
+      }
+      return slide;
+    }),
+    options.rng
+  );
+}
+
+/**
+ * Build one sequence from the leader's queue, keeping only slides every member has variants for
+ * Panoramas are slotted in between at a fixed interval while they last
+ */
+async function generateLockstepQueue(group: DeviceGroup, queueSize: number, options: GenerateQueueOptions): Promise<GroupQueue> {
+  const [leaderId, ...followerIds] = group.device_ids;
+  const [leader, ...followerVariants] = await Promise.all([generateSlideshowQueue(leaderId, queueSize, options), ...followerIds.map((deviceId) => getVariantsForDevice(deviceId))]);
+  const panoramas = await generatePanoramaSlides(group, options);
+
+  const variantMaps = followerVariants.map((variants) => {
+    const map = new Map<string, DeviceVariant>();
+    for (const variant of variants) {
+      map.set(`${variant.layout_type}:${variant.blob_hash}`, variant);
+    }
+    return map;
+  });
+
+  const slides: Record<string, QueueItem>[] = [];
+  for (const item of leader.queue) {
+    const slide: Record<string, QueueItem> = { [leaderId]: item };
+
+    for (const [index, deviceId] of followerIds.entries()) {
+      const variants = item.images.map((image) => variantMaps[index].get(`${item.layoutType}:${image.blob_hash}`));
+      if (variants.some((variant) => !variant)) {
+        break;
+      }
+      slide[deviceId] = {
+        ...item,
+        images: item.images.map((image, imageIndex) => ({
+          ...image,
+          url: variants[imageIndex]!.storage_path.replace(/^gs:\/\//, "https://storage.googleapis.com/"),
+        })),
+      };
+    }
+
+    if (Object.keys(slide).length === group.device_ids.length) {
+      slides.push(slide);
+      if (slides.length % (PANORAMA_INTERVAL + 1) === PANORAMA_INTERVAL && panoramas.length > 0) {
+        slides.push(panoramas.shift()!);
+      }
+    }
+  }
+
+  if (leader.queue.length > 0 && slides.length === 0) {
+    console.warn(`Device group ${group.id} has no images with variants on every member`);
+  }
+
+  return {
+    groupId: group.id,
+    mode: group.mode,
+    slides,
+    generatedAt: leader.generatedAt,
+    scheduleValidUntil: leader.scheduleValidUntil,
+  };
+}
+
+/**
+ * Generate and store a group queue; the group follows its first member's albums, strategy and schedule
+ * With `expectedQueueId`, the queue is only stored if no other member replaced it first: for lockstep groups
+ * that's the stored group queue, for themed groups the queue `memberId` (default: the first member) is on
+ */
+export async function regenerateGroupQueue(
+  group: DeviceGroup,
+  queueSize = 100,
+  options: GenerateQueueOptions = {},
+  expectedQueueId?: string | null,
+  memberId: string = group.device_ids[0]
+): Promise<GroupQueue> {
+  if (group.device_ids.length === 0) {
+    return { groupId: group.id, mode: group.mode, slides: [], generatedAt: new Date().toISOString() };
+  }
+
+  console.log(`Generating ${group.mode} queue for device group ${group.id} with ${group.device_ids.length} member(s)`);
+
+  if (group.mode === "themed") {
+    return generateThemedQueue(group, queueSize, options, expectedQueueId === undefined ? undefined : { deviceId: memberId, queueId: expectedQueueId });
+  }
+
+  const queue = await generateLockstepQueue(group, queueSize, options);
+  if (queue.slides.length > 0) {
+    await replaceDeviceGroupQueue(
+      {
+        group_id: group.id,
+        queue_id: crypto.randomUUID(),
+        queue_data: JSON.stringify(queue),
+        started_at: new Date().toISOString(),
+        slide_seconds: group.slide_seconds,
+        length: queue.slides.length,
+        valid_until: queue.scheduleValidUntil,
+      },
+      expectedQueueId
+    );
+  }
+  return queue;
+}
+
+/**
+ * Find the slide a lockstep group is on and this member's items from it onward
+ * The slide index is derived from the shared clock, so every member agrees without coordinating;
+ * the queue is regenerated at most once when it has run out or expired
+ */
+export async function getLockstepSlide(group: DeviceGroup, deviceId: string, count = 1, now: Date = new Date()): Promise<LockstepSlide | null> {
+  let stored = await getDeviceGroupQueue(group.id);
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (stored) {
+      const startedAt = new Date(stored.started_at).getTime();
+      const slideMs = stored.slide_seconds * 1000;
+      const index = Math.floor((now.getTime() - startedAt) / slideMs);
+      const expired = stored.valid_until !== undefined && now.toISOString() >= stored.valid_until;
+
+      if (index >= 0 && index < stored.length && !expired) {
+        const queue = JSON.parse(stored.queue_data) as GroupQueue;
+        return {
+          index,
+          changesAt: new Date(startedAt + (index + 1) * slideMs).toISOString(),
+          items: queue.slides.slice(index, index + count).flatMap((slide) => (slide[deviceId] ? [slide[deviceId]] : [])),
+        };
+      }
+    }
+
+    if (attempt === 0) {
+      await regenerateGroupQueue(group, undefined, undefined, stored?.queue_id ?? null);
+      stored = await getDeviceGroupQueue(group.id);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,120 @@
+/**
+ * Device heartbeat and health
+ * Devices post telemetry on a fixed interval; a device that misses its heartbeats is reported offline,
+ * which separates a crashed frame from one that is simply showing the same slide
+ */
+
+import { Timestamp } from "@google-cloud/firestore";
+import { createDeviceTelemetry, getDeviceTelemetry, updateDeviceHeartbeat } from "../db/helpers-firestore.ts";
+import type { Device, DeviceTelemetry } from "../db/types.ts";
+
+export type DeviceStatus = "online" | "offline" | "never";
+
+export type HeartbeatInput = Pick<DeviceTelemetry, "version" | "uptime_seconds" | "free_heap" | "wifi_rssi" | "battery" | "current_image" | "last_error"> & {
+  poll_interval?: number;
+};
+
+// Assumed heartbeat interval for devices that don't report one
+export const DEFAULT_POLL_INTERVAL_SECONDS = 300;
+
+// Heartbeats a device may miss, plus a fixed grace for slow networks, before it counts as offline
+const MISSED_HEARTBEATS_BEFORE_OFFLINE = 2;
+const OFFLINE_GRACE_SECONDS = 60;
+
+// Telemetry is kept for this long before Firestore TTL deletes it
+const TELEMETRY_RETENTION_DAYS = 30;
+
+/**
+ * Validate a heartbeat body
+ * Throws with a readable message on the first invalid field
+ */
+export function parseHeartbeat(body: unknown): HeartbeatInput {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const { version, uptime_seconds, free_heap, wifi_rssi, battery, current_image, last_error, poll_interval } = input;
+
+  for (const [field, value] of Object.entries({ version, current_image, last_error })) {
+    if (value !== undefined && typeof value !== "string") {
+      throw new Error(`${field} must be a string`);
+    }
+  }
+  for (const [field, value] of Object.entries({ uptime_seconds, free_heap })) {
+    if (value !== undefined && (typeof value !== "number" || value < 0)) {
+      throw new Error(`${field} must be a non-negative number`);
+    }
+  }
+  if (wifi_rssi !== undefined && typeof wifi_rssi !== "number") {
+    throw new Error("wifi_rssi must be a number");
+  }
+  if (poll_interval !== undefined && (typeof poll_interval !== "number" || !Number.isInteger(poll_interval) || poll_interval <= 0)) {
+    throw new Error("poll_interval must be a positive integer");
+  }
+  if (battery !== undefined && (!battery || typeof battery !== "object" || Array.isArray(battery))) {
+    throw new Error("battery must be an object");
+  }
+  const { percent, voltage, charging } = (battery ?? {}) as Record<string, unknown>;
+  if (percent !== undefined && (typeof percent !== "number" || percent < 0 || percent > 100)) {
+    throw new Error("battery.percent must be a number between 0 and 100");
+  }
+  if (voltage !== undefined && typeof voltage !== "number") {
+    throw new Error("battery.voltage must be a number");
+  }
+  if (charging !== undefined && typeof charging !== "boolean") {
+    throw new Error("battery.charging must be a boolean");
+  }
+
+  return {
+    version: version as string | undefined,
+    uptime_seconds: uptime_seconds as number | undefined,
+    free_heap: free_heap as number | undefined,
+    wifi_rssi: wifi_rssi as number | undefined,
+    battery: battery === undefined ? undefined : { percent: percent as number | undefined, voltage: voltage as number | undefined, charging: charging as boolean | undefined },
+    current_image: current_image as string | undefined,
+    last_error: last_error as string | undefined,
+    poll_interval: poll_interval as number | undefined,
+  };
+}
+
+/**
+ * Derive whether a device is online from when it was last seen and how often it promised to check in
+ */
+export function getDeviceStatus(device: Pick<Device, "last_seen" | "poll_interval">, now: Date = new Date()): DeviceStatus {
+  if (!device.last_seen) {
+    return "never";
+  }
+
+  const interval = device.poll_interval ?? DEFAULT_POLL_INTERVAL_SECONDS;
+  const allowedSeconds = interval * MISSED_HEARTBEATS_BEFORE_OFFLINE + OFFLINE_GRACE_SECONDS;
+  const elapsedSeconds = (now.getTime() - new Date(device.last_seen).getTime()) / 1000;
+
+  return elapsedSeconds <= allowedSeconds ? "online" : "offline";
+}
+
+/**
+ * Store a heartbeat's telemetry and mark the device as seen
+ * A lower uptime than the previous heartbeat means the device restarted in between
+ */
+export async function recordHeartbeat(device: Device, heartbeat: HeartbeatInput): Promise<{ pollInterval: number; telemetry: DeviceTelemetry }> {
+  const [previous] = await getDeviceTelemetry(device.id, 1);
+  const now = new Date();
+  const { poll_interval, ...telemetry } = heartbeat;
+
+  const entry = await createDeviceTelemetry({
+    ...telemetry,
+    device_id: device.id,
+    reported_at: now.toISOString(),
+    restarted: previous?.uptime_seconds !== undefined && telemetry.uptime_seconds !== undefined && telemetry.uptime_seconds < previous.uptime_seconds,
+    expire_at: Timestamp.fromDate(new Date(now.getTime() + TELEMETRY_RETENTION_DAYS * 24 * 60 * 60 * 1000)),
+  });
+
+  await updateDeviceHeartbeat(device.id, { version: telemetry.version, poll_interval });
+
+  return { pollInterval: poll_interval ?? device.poll_interval ?? DEFAULT_POLL_INTERVAL_SECONDS, telemetry: entry };
+}
+
+/**
+ * Telemetry as returned by the API, without the storage-only TTL field
+ */
+export function toTelemetryResponse(entry: DeviceTelemetry): Omit<DeviceTelemetry, "expire_at"> {
+  const { expire_at: _expireAt, ...rest } = entry;
+  return rest;
+}
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { describe, it } from "node:test";
+import { encodeProtocolMsgpack, encodeProtocolText, escapeTextField, type ProtocolFrame } from "./device-protocol.ts";
+
+// Golden files pin the wire format; if an encoding has to change, that's a new protocol version
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/device-protocol/${name}`, import.meta.url));
+
+const frame = JSON.parse(fixture("frame.json").toString("utf8")) as ProtocolFrame;
+
+describe("encodeProtocolMsgpack", () => {
+  it("matches the golden file", () => {
+    assert.deepEqual(Buffer.from(encodeProtocolMsgpack(frame)), fixture("frame.msgpack"));
+  });
+});
+
+describe("encodeProtocolText", () => {
+  it("matches the golden file", () => {
+    assert.equal(encodeProtocolText(frame), fixture("frame.txt").toString("utf8"));
+  });
+
+  it("escapes separators inside fields", () => {
+    assert.equal(escapeTextField("a\\b\tc\nd\re"), "a\\\\b\\tc\\nd\\re");
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Device wire protocol
+ * A versioned, compact form of queue items for firmware, offered as msgpack or as line-based text;
+ * documented in documents/DEVICE_API.md, where any change to the layout needs a new version
+ */
+
+import { encode } from "@std/msgpack";
+import { getBlob } from "../db/helpers-firestore.ts";
+import type { Device, VariantKind } from "../db/types.ts";
+import type { CommandType } from "./device-commands.ts";
+import { calculateLayoutSlotBoxes } from "./image-layout.ts";
+import type { QueueItem } from "./slideshow-queue.ts";
+
+export type ProtocolVersion = 1;
+export type ProtocolFormat = "msgpack" | "text";
+
+export type ProtocolImage = {
+  url: string;
+  x: number; // Where the image goes on screen, in pixels; the image is already cropped to this box
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+};
+
+export type ProtocolItem = {
+  layout: VariantKind;
+  duration: number; // Seconds to show the item
+  theme: string[]; // Source color first, then the rest of the palette
+  images: ProtocolImage[];
+};
+
+export type ProtocolFrame = {
+  version: ProtocolVersion;
+  items: ProtocolItem[];
+  commands: { id: string; type: CommandType }[];
+};
+
+export const PROTOCOL_VERSIONS: ProtocolVersion[] = [1];
+export const LATEST_PROTOCOL_VERSION: ProtocolVersion = 1;
+
+export const PROTOCOL_CONTENT_TYPES: Record<ProtocolFormat, string> = {
+  msgpack: "application/vnd.slideshow+msgpack",
+  text: "text/vnd.slideshow",
+};
+
+// Theme colors sent per item, including the source color
+const THEME_SIZE = 4;
+
+const TEXT_ESCAPES: Record<string, string> = { "\\": "\\\\", "\t": "\\t", "\n": "\\n", "\r": "\\r" };
+
+/**
+ * Pick the version and format for a request
+ * `?v=` and `?format=` win over the Accept header; msgpack is the default format. Throws for unsupported choices
+ */
+export function negotiateProtocol(accept: string | undefined, versionParam: string | undefined, formatParam: string | undefined): { version: ProtocolVersion; format: ProtocolFormat } {
+  const ranges = (accept ?? "").split(",").map((range) => range.trim().toLowerCase());
+  const accepted = ranges.find((range) => /^(application\/vnd\.slideshow\+msgpack|application\/(x-)?msgpack|text\/vnd\.slideshow|text\/plain)\b/.test(range));
+
+  const format = formatParam ?? (accepted?.startsWith("text/") ? "text" : "msgpack");
+  if (format !== "msgpack" && format !== "text") {
+    throw new Error(`Unknown format: ${format}; use msgpack or text`);
+  }
+
+  const version = Number(versionParam ?? accepted?.match(/;\s*v=(\d+)/)?.[1] ?? LATEST_PROTOCOL_VERSION);
+  if (!PROTOCOL_VERSIONS.includes(version as ProtocolVersion)) {
+    throw new Error(`Unsupported protocol version: ${versionParam ?? version}; supported: ${PROTOCOL_VERSIONS.join(", ")}`);
+  }
+
+  return { version: version as ProtocolVersion, format };
+}
+
+/**
+ * Screen boxes for each image of a layout, matching the slot sizes variants are generated at
+ */
+function layoutBoxes(device: Device, layout: VariantKind): Omit<ProtocolImage, "url" | "color">[] {
+  return calculateLayoutSlotBoxes(device.width, device.height, device.gap || 0, layout === "panorama" ? "monotych" : layout);
+}
+
+/**
+ * Build a protocol frame from queue items, looking up each image's palette for the theme
+ */
+export async function buildProtocolFrame(
+  device: Device,
+  items: QueueItem[],
+  commands: { id: string; type: CommandType }[],
+  durationSeconds: number
+): Promise<ProtocolFrame> {
+  const hashes = [...new Set(items.flatMap((item) => item.images.flatMap((image) => (image.blob_hash ? [image.blob_hash] : []))))];
+  const blobs = await Promise.all(hashes.map((hash) => getBlob(hash)));
+  const palettes = new Map(hashes.map((hash, index) => [hash, blobs[index]?.color_palette ? (JSON.parse(blobs[index]!.color_palette!) as string[]) : []]));
+
+  return {
+    version: 1,
+    items: items.map((item) => {
+      const boxes = layoutBoxes(device, item.layoutType);
+      const palette = item.images.flatMap((image) => (image.blob_hash ? palettes.get(image.blob_hash) ?? [] : []));
+      const sourceColor = item.source_color ?? item.images[0]?.source_color;
+
+      return {
+        layout: item.layoutType,
+        duration: durationSeconds,
+        theme: [...new Set([sourceColor, ...palette].filter((color): color is string => !!color))].slice(0, THEME_SIZE),
+        images: item.images.map((image, index) => ({ url: image.url, ...boxes[index], color: image.source_color })),
+      };
+    }),
+    commands,
+  };
+}
+
+/**
+ * msgpack form, positional to keep it small:
+ * [version, [[layout, duration, [theme...], [[url, x, y, width, height, color | nil]...]]...], [[id, type]...]]
+ */
+export function encodeProtocolMsgpack(frame: ProtocolFrame): Uint8Array<ArrayBuffer> {
+  // encode concatenates into a freshly allocated buffer, never a shared one
+  return encode([
+    frame.version,
+    frame.items.map((item) => [
+      item.layout,
+      item.duration,
+      item.theme,
+      item.images.map((image) => [image.url, image.x, image.y, image.width, image.height, image.color ?? null]),
+    ]),
+    frame.commands.map((command) => [command.id, command.type]),
+  ]) as Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Escape a text field: backslash, tab, newline and carriage return become \\, \t, \n and \r
+ */
+export function escapeTextField(value: string | number): string {
+  return String(value).replace(/[\\\t\n\r]/g, (char) => TEXT_ESCAPES[char]);
+}
+
+/**
+ * Text form: one tab-separated record per line, every field escaped, closed by an "end" line
+ * so a truncated download is detectable
+ */
+export function encodeProtocolText(frame: ProtocolFrame): string {
+  const line = (...fields: (string | number)[]) => fields.map(escapeTextField).join("\t") + "\n";
+
+  let text = line("slideshow", frame.version);
+  for (const item of frame.items) {
+    text += line("item", item.layout, item.duration, ...item.theme);
+    for (const image of item.images) {
+      text += line("image", image.url, image.x, image.y, image.width, image.height, image.color ?? "");
+    }
+  }
+  for (const command of frame.commands) {
+    text += line("command", command.id, command.type);
+  }
+  return text + line("end");
+}
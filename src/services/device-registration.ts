@@ -0,0 +1,186 @@
+/**
+ * Device registration handshake
+ * Devices report their hardware on boot; the backend stores it and answers with the effective config
+ */
+
+import { countBlobs, countDeviceVariants, deleteDeviceQueueState, getDevice, upsertDevice } from "../db/helpers-firestore.ts";
+import type { Device, LayoutType, Orientation } from "../db/types.ts";
+import { getDitherProfile, validateEinkProfile, type EinkProfile } from "./eink.ts";
+import { calculateLayoutSlotSize } from "./image-layout.ts";
+import { DEFAULT_LAYOUTS, isValidLayouts, parseLayouts, type Layouts } from "./slideshow-queue.ts";
+
+export type DeviceCapabilities = {
+  decoders?: string[]; // Image formats the firmware can decode, e.g. ["jpeg", "png"]
+  max_image_bytes?: number; // Largest download the device can buffer
+  panel?: string; // Display technology, e.g. "lcd", "eink"
+  eink?: EinkProfile; // Palette and dithering for e-ink panels; without it the device gets JPEGs
+  [key: string]: unknown;
+};
+
+export type RegistrationInput = {
+  id: string;
+  name?: string;
+  width: number;
+  height: number;
+  orientation?: Orientation;
+  layouts?: Partial<Layouts>;
+  gap?: number;
+  capabilities?: DeviceCapabilities;
+  version?: string;
+};
+
+export type DeviceConfig = Omit<Device, "layouts" | "capabilities"> & {
+  layouts: Layouts;
+  capabilities?: DeviceCapabilities;
+};
+
+export type RegistrationResult = {
+  created: boolean;
+  changes: string[]; // Reported fields that differ from what was stored
+  config: DeviceConfig;
+  variants: Partial<Record<LayoutType, number>>; // Variants at the current slot size per enabled layout
+  needsBackfill: boolean;
+};
+
+// Reported fields whose change invalidates existing variants and queues
+const GEOMETRY_FIELDS = ["width", "height", "orientation", "layouts", "gap"] as const;
+
+/**
+ * Validate a handshake body
+ * Throws with a readable message on the first invalid field
+ */
+export function parseRegistrationInput(body: unknown): RegistrationInput {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const { id, name, width, height, orientation, layouts, gap, capabilities, version } = input;
+
+  if (typeof id !== "string" || !id) {
+    throw new Error("id is required");
+  }
+  for (const [field, value] of Object.entries({ width, height })) {
+    if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+      throw new Error(`${field} must be a positive integer`);
+    }
+  }
+  if (name !== undefined && typeof name !== "string") {
+    throw new Error("name must be a string");
+  }
+  if (orientation !== undefined && orientation !== "landscape" && orientation !== "portrait" && orientation !== "square") {
+    throw new Error('orientation must be "landscape", "portrait" or "square"');
+  }
+  if (layouts !== undefined && !isValidLayouts(layouts)) {
+    throw new Error("layouts must map monotych, diptych and triptych to booleans, with at least one enabled");
+  }
+  if (gap !== undefined && (typeof gap !== "number" || gap < 0)) {
+    throw new Error("gap must be a non-negative number");
+  }
+  if (capabilities !== undefined && (!capabilities || typeof capabilities !== "object" || Array.isArray(capabilities))) {
+    throw new Error("capabilities must be an object");
+  }
+  const caps = capabilities as DeviceCapabilities | undefined;
+  if (caps?.decoders !== undefined && (!Array.isArray(caps.decoders) || !caps.decoders.every((decoder) => typeof decoder === "string"))) {
+    throw new Error("capabilities.decoders must be an array of strings");
+  }
+  if (caps?.max_image_bytes !== undefined && (typeof caps.max_image_bytes !== "number" || caps.max_image_bytes <= 0)) {
+    throw new Error("capabilities.max_image_bytes must be a positive number");
+  }
+  if (caps?.eink !== undefined) {
+    validateEinkProfile(caps.eink);
+  }
+  if (version !== undefined && typeof version !== "string") {
+    throw new Error("version must be a string");
+  }
+
+  return {
+    id,
+    name: name as string | undefined,
+    width: width as number,
+    height: height as number,
+    orientation: orientation as Orientation | undefined,
+    layouts: layouts as Partial<Layouts> | undefined,
+    gap: gap as number | undefined,
+    capabilities: caps,
+    version: version as string | undefined,
+  };
+}
+
+/**
+ * Parse a stored device into its effective config
+ */
+export function toDeviceConfig(device: Device): DeviceConfig {
+  return {
+    ...device,
+    layouts: parseLayouts(device.layouts),
+    capabilities: device.capabilities ? JSON.parse(device.capabilities) : undefined,
+  };
+}
+
+function deriveOrientation(width: number, height: number): Orientation {
+  return height > width ? "portrait" : "landscape";
+}
+
+/**
+ * Upsert a device from its handshake and report how it compares with the stored record
+ * Server-side settings (albums, schedules, strategy) are kept; reported hardware wins
+ */
+export async function registerDevice(input: RegistrationInput): Promise<RegistrationResult> {
+  const existing = await getDevice(input.id);
+  const now = new Date().toISOString();
+
+  const layouts = { ...(existing ? parseLayouts(existing.layouts) : DEFAULT_LAYOUTS), ...input.layouts };
+  const reported = {
+    width: input.width,
+    height: input.height,
+    orientation: input.orientation ?? deriveOrientation(input.width, input.height),
+    layouts: JSON.stringify(layouts),
+    gap: input.gap ?? existing?.gap ?? 0,
+    capabilities: input.capabilities ? JSON.stringify(input.capabilities) : existing?.capabilities,
+    version: input.version ?? existing?.version,
+  };
+
+  const changes = existing
+    ? (Object.keys(reported) as (keyof typeof reported)[]).filter((field) => {
+        const before = field === "layouts" ? JSON.stringify(parseLayouts(existing.layouts)) : existing[field];
+        return before !== reported[field];
+      })
+    : [];
+
+  const device: Device = {
+    ...existing,
+    id: input.id,
+    name: input.name ?? existing?.name ?? input.id,
+    ...reported,
+    created_at: existing?.created_at ?? now,
+    last_seen: now,
+  };
+  await upsertDevice(device);
+
+  // A new screen geometry or e-ink profile makes the stored queue point at variants that are about to be replaced
+  const geometryChanged =
+    changes.some((field) => (GEOMETRY_FIELDS as readonly string[]).includes(field)) ||
+    (!!existing && getDitherProfile(existing.capabilities)?.key !== getDitherProfile(device.capabilities)?.key);
+  if (geometryChanged) {
+    await deleteDeviceQueueState(device.id);
+  }
+
+  const enabledLayouts = (Object.keys(layouts) as LayoutType[]).filter((layout) => layouts[layout]);
+  const [blobCount, ...variantCounts] = await Promise.all([
+    countBlobs(),
+    ...enabledLayouts.map((layout) => {
+      const slot = calculateLayoutSlotSize(device.width, device.height, device.gap, layout);
+      return countDeviceVariants(device.id, layout, slot.width, slot.height);
+    }),
+  ]);
+
+  const variants: Partial<Record<LayoutType, number>> = {};
+  enabledLayouts.forEach((layout, index) => {
+    variants[layout] = variantCounts[index];
+  });
+
+  return {
+    created: !existing,
+    changes,
+    config: toDeviceConfig(device),
+    variants,
+    needsBackfill: blobCount > 0 && (geometryChanged || variantCounts.some((count) => count === 0)),
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Directionality arrangement for multi-image layouts
+ * Orders diptych and triptych images so subjects face inward, using the AI directionality score
+ * (-1 flows left, +1 flows right, 0 is static or head-on)
+ */
+
+export type DirectionalityArrangement = {
+  scores: (number | null)[]; // Directionality of each image in display order; null when not analyzed
+  fit: number; // Higher is better; positive means subjects lean toward the centre
+  facingOut: boolean; // An edge image still points out of the frame
+};
+
+// Scores closer to 0 than this count as facing head-on
+const FACING_THRESHOLD = 0.3;
+
+/**
+ * Desired flow per position: left edge faces right, right edge faces left, centre is free
+ */
+function positionTargets(count: number): number[] {
+  if (count === 2) {
+    return [1, -1];
+  }
+  return Array.from({ length: count }, (_, i) => (count === 1 ? 0 : 1 - (2 * i) / (count - 1)));
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) {
+    return [items];
+  }
+  return items.flatMap((item, index) => permutations([...items.slice(0, index), ...items.slice(index + 1)]).map((rest) => [item, ...rest]));
+}
+
+function evaluate(scores: (number | null)[]): DirectionalityArrangement {
+  const targets = positionTargets(scores.length);
+  const fit = scores.reduce<number>((sum, score, i) => sum + (score ?? 0) * targets[i], 0);
+  const first = scores[0] ?? 0;
+  const last = scores[scores.length - 1] ?? 0;
+
+  return {
+    scores,
+    fit: parseFloat(fit.toFixed(3)),
+    facingOut: scores.length > 1 && (first <= -FACING_THRESHOLD || last >= FACING_THRESHOLD),
+  };
+}
+
+/**
+ * Order images so subjects face the centre of the slide
+ * Keeps the incoming order when no arrangement is better (e.g. nothing analyzed)
+ */
+export function arrangeByDirectionality<T>(images: T[], scoreOf: (image: T) => number | undefined): { images: T[]; arrangement: DirectionalityArrangement } {
+  let bestImages = images;
+  let best = evaluate(images.map((image) => scoreOf(image) ?? null));
+
+  if (images.length < 2) {
+    return { images: bestImages, arrangement: best };
+  }
+
+  for (const candidate of permutations(images)) {
+    const arrangement = evaluate(candidate.map((image) => scoreOf(image) ?? null));
+    if (arrangement.fit > best.fit || (arrangement.fit === best.fit && best.facingOut && !arrangement.facingOut)) {
+      bestImages = candidate;
+      best = arrangement;
+    }
+  }
+
+  return { images: bestImages, arrangement: best };
+}
+
+/**
+ * Find an image that makes a pairing clash: every image flowing toward the same edge,
+ * so one of them faces out of the frame whichever way they are arranged
+ * Returns the index of the weakest clashing image, or -1 when the set can be arranged cleanly
+ */
+export function findDirectionalityClash(scores: (number | undefined)[]): number {
+  if (scores.length < 2) {
+    return -1;
+  }
+
+  for (const sign of [1, -1]) {
+    const facing = scores
+      .map((score, index) => ({ score: (score ?? 0) * sign, index }))
+      .filter(({ score }) => score >= FACING_THRESHOLD);
+
+    // A triptych centre may flow either way, so only a full set leaves no inward-facing edge
+    if (facing.length === scores.length) {
+      facing.sort((a, b) => a.score - b.score);
+      return facing[0].index;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,142 @@
+/**
+ * Display history service
+ * Records what each device has shown and keeps recently shown images out of new queues
+ */
+
+import { Timestamp } from "@google-cloud/firestore";
+import { createDisplayHistoryEntries, getDisplayHistory } from "../db/helpers-firestore.ts";
+import type { Device, DeviceVariant } from "../db/types.ts";
+import type { QueueItem } from "./slideshow-queue.ts";
+
+export type NoRepeatWindow = {
+  slides: number; // An image may not return within this many slides
+  hours: number; // An image may not return within this many hours
+};
+
+export type RepeatGuard = {
+  readonly lastShown: Map<string, number>; // blob hash -> epoch ms it was last shown
+  filter(candidates: DeviceVariant[], needed: number): DeviceVariant[];
+  record(blobHashes: string[], at: number): void;
+  recentSlides(count: number): string[][]; // Blob hashes of the last `count` slides, most recent first
+};
+
+const DEFAULT_NO_REPEAT_WINDOW: NoRepeatWindow = {
+  slides: 10,
+  hours: 0,
+};
+
+// Minimum history read per generation, enough to rank images by staleness
+const HISTORY_LOOKBACK = 500;
+
+// History is kept for this long before Firestore TTL deletes it; longer no-repeat windows are cut to this
+const HISTORY_RETENTION_DAYS = 90;
+
+/**
+ * Resolve the no-repeat window configured for a device
+ */
+export function getNoRepeatWindow(device: Device): NoRepeatWindow {
+  return {
+    slides: device.no_repeat_slides ?? DEFAULT_NO_REPEAT_WINDOW.slides,
+    hours: device.no_repeat_hours ?? DEFAULT_NO_REPEAT_WINDOW.hours,
+  };
+}
+
+/**
+ * Record queue items as shown on a device
+ * Items handed out together get consecutive timestamps so each stays a distinct slide
+ */
+export async function recordDisplayedItems(deviceId: string, items: QueueItem[]): Promise<void> {
+  const now = Date.now();
+  const expireAt = Timestamp.fromDate(new Date(now + HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+
+  await createDisplayHistoryEntries(
+    items.flatMap((item, index) =>
+      item.images
+        .filter((image) => image.blob_hash)
+        .map((image) => ({
+          device_id: deviceId,
+          blob_hash: image.blob_hash!,
+          layout_type: item.layoutType,
+          shown_at: new Date(now + index).toISOString(),
+          expire_at: expireAt,
+        }))
+    )
+  );
+}
+
+/**
+ * Build a guard that enforces the no-repeat window during queue generation
+ * Slides added with `record` count towards the window, so it also holds within the new queue
+ */
+export async function createRepeatGuard(deviceId: string, window: NoRepeatWindow, now: number = Date.now()): Promise<RepeatGuard> {
+  const history = await getDisplayHistory(deviceId, Math.max(HISTORY_LOOKBACK, window.slides * 3));
+
+  const lastShown = new Map<string, number>();
+  const blockedByTime = new Set<string>();
+  const cutoff = now - window.hours * 60 * 60 * 1000;
+
+  // Most recent slide first; entries of one slide share a timestamp
+  const slides: string[][] = [];
+  let previousShownAt: string | undefined;
+
+  for (const entry of history) {
+    const shownAt = new Date(entry.shown_at).getTime();
+
+    if (!lastShown.has(entry.blob_hash)) {
+      lastShown.set(entry.blob_hash, shownAt);
+    }
+    if (window.hours > 0 && shownAt >= cutoff) {
+      blockedByTime.add(entry.blob_hash);
+    }
+    if (entry.shown_at !== previousShownAt) {
+      slides.push([]);
+      previousShownAt = entry.shown_at;
+    }
+    slides[slides.length - 1].push(entry.blob_hash);
+  }
+
+  const isBlocked = (blobHash: string): boolean => {
+    if (blockedByTime.has(blobHash)) {
+      return true;
+    }
+    return slides.slice(0, window.slides).some((slide) => slide.includes(blobHash));
+  };
+
+  const staleness = (variant: DeviceVariant): number => lastShown.get(variant.blob_hash) ?? -Infinity;
+
+  return {
+    lastShown,
+    filter(candidates, needed) {
+      const allowed = candidates.filter((candidate) => !isBlocked(candidate.blob_hash));
+      const allowedHashes = new Set(allowed.map((candidate) => candidate.blob_hash));
+
+      if (allowedHashes.size >= needed) {
+        return allowed;
+      }
+
+      // Not enough fresh images: top up with the ones that have gone longest without being shown
+      const stalest = candidates.filter((candidate) => isBlocked(candidate.blob_hash)).sort((a, b) => staleness(a) - staleness(b));
+      const topUp: DeviceVariant[] = [];
+      for (const candidate of stalest) {
+        if (allowedHashes.size >= needed) {
+          break;
+        }
+        if (!allowedHashes.has(candidate.blob_hash)) {
+          allowedHashes.add(candidate.blob_hash);
+          topUp.push(candidate);
+        }
+      }
+
+      return [...allowed, ...topUp];
+    },
+    record(blobHashes, at) {
+      slides.unshift(blobHashes);
+      for (const blobHash of blobHashes) {
+        lastShown.set(blobHash, at);
+      }
+    },
+    recentSlides(count) {
+      return slides.slice(0, count);
+    },
+  };
+}
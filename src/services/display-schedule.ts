@@ -0,0 +1,107 @@
+/**
+ * Display schedule service
+ * Per-device periods that turn the screen off (quiet hours), dim it or change how often it advances,
+ * evaluated against the device's local time like content schedule rules
+ */
+
+import type { Device, DeviceGroup } from "../db/types.ts";
+import { findActiveRule, getLocalTime, getNextRuleChange, parseTime, type ScheduleWindow } from "./content-schedule.ts";
+import { DEFAULT_SLIDE_SECONDS } from "./device-groups.ts";
+
+export type ScreenState = "on" | "off";
+
+export type DisplayPeriod = ScheduleWindow & {
+  name: string;
+  screen?: ScreenState; // Defaults to on; off is quiet hours
+  brightness?: number; // Percent, 1-100
+  slide_seconds?: number; // Overrides the device's slide_seconds; lockstep groups keep their shared clock
+};
+
+export type DisplayState = {
+  screen: ScreenState;
+  brightness: number; // Percent, 0 while the screen is off
+  slide_seconds: number;
+  period?: string; // Name of the active period
+  changes_at?: string; // ISO timestamp; fetch again then, as the state may change
+};
+
+export const DEFAULT_BRIGHTNESS = 100;
+
+/**
+ * Validate a display schedule from a request body
+ * Throws with a readable message on the first invalid period
+ */
+export function parseDisplaySchedule(value: unknown): DisplayPeriod[] {
+  if (!Array.isArray(value)) {
+    throw new Error("display_schedule must be an array");
+  }
+
+  return value.map((raw, index) => {
+    const period = (raw ?? {}) as Partial<DisplayPeriod>;
+    const label = `display_schedule[${index}]`;
+
+    if (typeof period.name !== "string" || !period.name) {
+      throw new Error(`${label}.name is required`);
+    }
+    if (typeof period.start !== "string" || typeof period.end !== "string") {
+      throw new Error(`${label} needs start and end times`);
+    }
+    parseTime(period.start);
+    parseTime(period.end);
+    if (period.days !== undefined && (!Array.isArray(period.days) || !period.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))) {
+      throw new Error(`${label}.days must contain weekdays 0-6`);
+    }
+    if (period.screen !== undefined && period.screen !== "on" && period.screen !== "off") {
+      throw new Error(`${label}.screen must be "on" or "off"`);
+    }
+    if (period.brightness !== undefined && (!Number.isInteger(period.brightness) || period.brightness < 1 || period.brightness > 100)) {
+      throw new Error(`${label}.brightness must be an integer from 1 to 100`);
+    }
+    if (period.slide_seconds !== undefined && (!Number.isInteger(period.slide_seconds) || period.slide_seconds <= 0)) {
+      throw new Error(`${label}.slide_seconds must be a positive integer`);
+    }
+    if (period.screen === undefined && period.brightness === undefined && period.slide_seconds === undefined) {
+      throw new Error(`${label} must set screen, brightness or slide_seconds`);
+    }
+
+    return {
+      name: period.name,
+      start: period.start,
+      end: period.end,
+      days: period.days,
+      screen: period.screen,
+      brightness: period.brightness,
+      slide_seconds: period.slide_seconds,
+    };
+  });
+}
+
+export function parseStoredDisplaySchedule(scheduleJson: string | undefined): DisplayPeriod[] {
+  return scheduleJson ? (JSON.parse(scheduleJson) as DisplayPeriod[]) : [];
+}
+
+/**
+ * Whether the device is in quiet hours, when nothing should be handed out
+ */
+export function isQuietTime(device: Device, now: Date = new Date()): boolean {
+  const periods = parseStoredDisplaySchedule(device.display_schedule);
+  return periods.length > 0 && findActiveRule(periods, getLocalTime(device.timezone, now))?.screen === "off";
+}
+
+/**
+ * Screen, brightness and slide interval for the device right now, from the first active period
+ */
+export function getDisplayState(device: Device, group: DeviceGroup | undefined, now: Date = new Date()): DisplayState {
+  const periods = parseStoredDisplaySchedule(device.display_schedule);
+  const localTime = getLocalTime(device.timezone, now);
+  const period = findActiveRule(periods, localTime);
+  const screen = period?.screen ?? "on";
+
+  return {
+    screen,
+    brightness: screen === "off" ? 0 : period?.brightness ?? DEFAULT_BRIGHTNESS,
+    slide_seconds: group?.mode === "lockstep" ? group.slide_seconds : period?.slide_seconds ?? device.slide_seconds ?? DEFAULT_SLIDE_SECONDS,
+    period: period?.name,
+    changes_at: getNextRuleChange(periods, localTime, now)?.toISOString(),
+  };
+}
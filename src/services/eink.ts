@@ -0,0 +1,110 @@
+/**
+ * E-ink profiles
+ * Devices reporting an `eink` capability get variants dithered to their panel's few colors
+ * instead of JPEGs the firmware would have to dither itself
+ */
+
+export type EinkPalette = "bw" | "gray4" | "spectra6" | "acep7";
+export type EinkDither = "floyd-steinberg" | "atkinson";
+export type EinkOutput = "png" | "packed";
+
+// As reported in capabilities.eink
+export type EinkProfile = {
+  palette: EinkPalette;
+  colors?: string[]; // Measured panel colors, in the palette's order
+  dither?: EinkDither;
+  contrast?: number; // Multiplier applied before dithering, 1 leaves the image as is
+  saturation?: number;
+  output?: EinkOutput;
+};
+
+// What the processor needs to dither for a device, matching DitherProfile in processor/dither.ts
+export type DitherProfile = {
+  key: string; // Identifies the output; a device's variants dithered under another key are regenerated
+  palette: EinkPalette;
+  colors: string[]; // Nominal panel colors, written to the output
+  measured: string[]; // What the panel shows for each, used to choose colors and spread the error
+  dither: EinkDither;
+  contrast: number;
+  saturation: number;
+  output: EinkOutput;
+};
+
+// Nominal colors in the order their index is packed; "packed" output stores each pixel as an index into this list
+export const EINK_PALETTES: Record<EinkPalette, string[]> = {
+  bw: ["#000000", "#FFFFFF"],
+  gray4: ["#000000", "#555555", "#AAAAAA", "#FFFFFF"],
+  spectra6: ["#000000", "#FFFFFF", "#FFFF00", "#FF0000", "#0000FF", "#00FF00"],
+  acep7: ["#000000", "#FFFFFF", "#00FF00", "#0000FF", "#FF0000", "#FFFF00", "#FF8000"],
+};
+
+const DITHERS: EinkDither[] = ["floyd-steinberg", "atkinson"];
+const OUTPUTS: EinkOutput[] = ["png", "packed"];
+
+/**
+ * Validate capabilities.eink from a handshake
+ * Throws with a readable message on the first problem
+ */
+export function validateEinkProfile(value: unknown): EinkProfile {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("capabilities.eink must be an object");
+  }
+
+  const { palette, colors, dither, contrast, saturation, output } = value as Record<string, unknown>;
+  if (typeof palette !== "string" || !(palette in EINK_PALETTES)) {
+    throw new Error(`capabilities.eink.palette must be one of ${Object.keys(EINK_PALETTES).join(", ")}`);
+  }
+  const expected = EINK_PALETTES[palette as EinkPalette].length;
+  if (colors !== undefined && (!Array.isArray(colors) || colors.length !== expected || !colors.every((color) => typeof color === "string" && /^#[0-9a-fA-F]{6}$/.test(color)))) {
+    throw new Error(`capabilities.eink.colors must be ${expected} hex colors like #1A2B3C, in the order of the ${palette} palette`);
+  }
+  if (dither !== undefined && !DITHERS.includes(dither as EinkDither)) {
+    throw new Error(`capabilities.eink.dither must be one of ${DITHERS.join(", ")}`);
+  }
+  for (const [field, amount] of Object.entries({ contrast, saturation })) {
+    if (amount !== undefined && (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0 || amount > 3)) {
+      throw new Error(`capabilities.eink.${field} must be a number above 0 and at most 3`);
+    }
+  }
+  if (output !== undefined && !OUTPUTS.includes(output as EinkOutput)) {
+    throw new Error(`capabilities.eink.output must be one of ${OUTPUTS.join(", ")}`);
+  }
+
+  return {
+    palette: palette as EinkPalette,
+    colors: colors as string[] | undefined,
+    dither: dither as EinkDither | undefined,
+    contrast: contrast as number | undefined,
+    saturation: saturation as number | undefined,
+    output: output as EinkOutput | undefined,
+  };
+}
+
+/**
+ * Dither profile for a device's stored capabilities, with defaults filled in
+ * Undefined for devices that don't report an e-ink profile, which get JPEGs
+ */
+export function getDitherProfile(capabilitiesJson: string | undefined): DitherProfile | undefined {
+  const eink = capabilitiesJson ? (JSON.parse(capabilitiesJson) as { eink?: EinkProfile }).eink : undefined;
+  if (!eink) {
+    return undefined;
+  }
+
+  const colors = EINK_PALETTES[eink.palette];
+  const measured = (eink.colors ?? colors).map((color) => color.toUpperCase());
+  const dither = eink.dither ?? "floyd-steinberg";
+  const contrast = eink.contrast ?? 1;
+  const saturation = eink.saturation ?? 1;
+  const output = eink.output ?? "png";
+
+  return {
+    key: [eink.palette, dither, output, contrast, saturation, ...measured].join(":"),
+    palette: eink.palette,
+    colors,
+    measured,
+    dither,
+    contrast,
+    saturation,
+    output,
+  };
+}
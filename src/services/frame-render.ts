@@ -0,0 +1,60 @@
+/**
+ * Composited frames
+ * Renders a queue item as one full-screen image, so firmware can show any layout with a single image widget
+ */
+
+import { Buffer } from "node:buffer";
+import sharp from "sharp";
+import type { Device, DeviceVariant } from "../db/types.ts";
+import { calculateLayoutSlotBoxes } from "./image-layout.ts";
+import { renderOverlays } from "./overlays.ts";
+import type { QueueItem } from "./slideshow-queue.ts";
+import { readFile, storagePathFromUrl } from "./storage.ts";
+
+// Gap color when an item has no source color
+const DEFAULT_BACKGROUND = "#000000";
+
+/**
+ * Composite an item's images into their slots at full device resolution
+ * The gap between slots is filled with the item's source color; the device's overlays are drawn on top unless turned off
+ */
+export async function renderFrame(device: Device, item: QueueItem, options: { overlays?: boolean } = {}): Promise<Buffer> {
+  const boxes = calculateLayoutSlotBoxes(device.width, device.height, device.gap || 0, item.layoutType === "panorama" ? "monotych" : item.layoutType);
+  const background = item.source_color ?? item.images[0]?.source_color ?? DEFAULT_BACKGROUND;
+
+  const tiles = await Promise.all(
+    item.images.slice(0, boxes.length).map(async (image, index) => {
+      const box = boxes[index];
+      // Variants are generated at slot size; resizing only covers devices resized since
+      const input = await sharp(await readFile(storagePathFromUrl(image.url)))
+        .resize(box.width, box.height, { fit: "cover", kernel: sharp.kernel.mks2021 })
+        .toBuffer();
+      return { input, left: box.x, top: box.y };
+    })
+  );
+
+  const overlay = options.overlays === false ? undefined : await renderOverlays(device, item, boxes);
+  if (overlay) {
+    tiles.push({ input: overlay, left: 0, top: 0 });
+  }
+
+  return await sharp({ create: { width: device.width, height: device.height, channels: 3, background } })
+    .composite(tiles)
+    .jpeg({ quality: 90 })
+    .toBuffer();
+}
+
+/**
+ * Queue item for specific variants, in the order given
+ */
+export function itemFromVariants(variants: DeviceVariant[], sourceColor?: string): QueueItem {
+  return {
+    layoutType: variants[0].layout_type,
+    images: variants.map((variant) => ({
+      url: variant.storage_path.replace(/^gs:\/\//, "https://storage.googleapis.com/"),
+      blob_hash: variant.blob_hash,
+      source_color: sourceColor,
+    })),
+    source_color: sourceColor,
+  };
+}
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { encodeFramebuffer } from "./framebuffer.ts";
+
+// Firmware copies these bytes straight to the display, so headers and pixel order are part of the wire format
+const RED_GREEN = Uint8Array.from([255, 0, 0, 0, 255, 0]);
+
+describe("encodeFramebuffer", () => {
+  it("writes the SSFB header and little-endian RGB565", () => {
+    assert.deepEqual(
+      [...encodeFramebuffer(RED_GREEN, 2, 1, "rgb565le")],
+      [0x53, 0x53, 0x46, 0x42, 1, 1, 2, 0, 1, 0, 4, 0, 0x00, 0xf8, 0xe0, 0x07]
+    );
+  });
+
+  it("writes big-endian RGB565", () => {
+    assert.deepEqual(
+      [...encodeFramebuffer(RED_GREEN, 2, 1, "rgb565be")],
+      [0x53, 0x53, 0x46, 0x42, 1, 2, 2, 0, 1, 0, 4, 0, 0xf8, 0x00, 0x07, 0xe0]
+    );
+  });
+
+  it("copies RGB888 pixels unchanged", () => {
+    assert.deepEqual(
+      [...encodeFramebuffer(RED_GREEN, 2, 1, "rgb888")],
+      [0x53, 0x53, 0x46, 0x42, 1, 3, 2, 0, 1, 0, 6, 0, 255, 0, 0, 0, 255, 0]
+    );
+  });
+
+  it("writes an LVGL 9 header with little-endian RGB565", () => {
+    assert.deepEqual(
+      [...encodeFramebuffer(RED_GREEN, 2, 1, "lvgl")],
+      [0x19, 0x12, 0, 0, 2, 0, 1, 0, 4, 0, 0, 0, 0x00, 0xf8, 0xe0, 0x07]
+    );
+  });
+});
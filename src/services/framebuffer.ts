@@ -0,0 +1,103 @@
+/**
+ * Raw framebuffers
+ * Variants converted to pixel formats microcontrollers can copy straight to the display,
+ * saving the time and RAM a JPEG decode takes; conversions are cached next to the JPEG
+ */
+
+import { Buffer } from "node:buffer";
+import sharp from "sharp";
+import type { DeviceVariant } from "../db/types.ts";
+import { fileExists, parseGCSUri, readFile, writeFile } from "./storage.ts";
+
+export type FramebufferFormat = "rgb565le" | "rgb565be" | "rgb888" | "lvgl";
+
+// In the order they're written into the header's format byte, starting at 1
+export const FRAMEBUFFER_FORMATS: FramebufferFormat[] = ["rgb565le", "rgb565be", "rgb888", "lvgl"];
+
+// "SSFB", then version, format, width, height and bytes per row, all little-endian
+const HEADER_MAGIC = "SSFB";
+const HEADER_VERSION = 1;
+const HEADER_SIZE = 12;
+
+// LVGL 9 image header: magic, color format and flags, then width, height and stride; its RGB565 pixels are little-endian
+const LVGL_MAGIC = 0x19;
+const LVGL_CF_RGB565 = 0x12;
+
+function isFramebufferFormat(value: string): value is FramebufferFormat {
+  return FRAMEBUFFER_FORMATS.includes(value as FramebufferFormat);
+}
+
+/**
+ * The first raw format among a device's declared decoders, in the device's order of preference
+ */
+export function chooseFramebufferFormat(capabilitiesJson: string | undefined): FramebufferFormat | undefined {
+  const decoders = capabilitiesJson ? (JSON.parse(capabilitiesJson) as { decoders?: string[] }).decoders : undefined;
+  return decoders?.map((decoder) => decoder.toLowerCase()).find(isFramebufferFormat);
+}
+
+function bytesPerPixel(format: FramebufferFormat): number {
+  return format === "rgb888" ? 3 : 2;
+}
+
+/**
+ * Convert packed RGB pixels to a framebuffer with its header
+ */
+export function encodeFramebuffer(rgb: Uint8Array, width: number, height: number, format: FramebufferFormat): Buffer {
+  const stride = width * bytesPerPixel(format);
+  const output = Buffer.alloc(HEADER_SIZE + stride * height);
+
+  if (format === "lvgl") {
+    output.writeUInt8(LVGL_MAGIC, 0);
+    output.writeUInt8(LVGL_CF_RGB565, 1);
+    output.writeUInt16LE(0, 2);
+  } else {
+    output.write(HEADER_MAGIC, 0, "ascii");
+    output.writeUInt8(HEADER_VERSION, 4);
+    output.writeUInt8(FRAMEBUFFER_FORMATS.indexOf(format) + 1, 5);
+  }
+  output.writeUInt16LE(width, format === "lvgl" ? 4 : 6);
+  output.writeUInt16LE(height, format === "lvgl" ? 6 : 8);
+  output.writeUInt16LE(stride, format === "lvgl" ? 8 : 10);
+
+  if (format === "rgb888") {
+    output.set(rgb, HEADER_SIZE);
+    return output;
+  }
+
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const r = rgb[pixel * 3];
+    const g = rgb[pixel * 3 + 1];
+    const b = rgb[pixel * 3 + 2];
+    const value = ((r & 0xf8) << 8) | ((g & 0xfc) << 3) | (b >> 3);
+    if (format === "rgb565be") {
+      output.writeUInt16BE(value, HEADER_SIZE + pixel * 2);
+    } else {
+      output.writeUInt16LE(value, HEADER_SIZE + pixel * 2);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * A variant as a framebuffer, converted on first request and cached beside it in storage
+ */
+export async function getFramebuffer(variant: DeviceVariant, format: FramebufferFormat): Promise<Uint8Array> {
+  const source = parseGCSUri(variant.storage_path);
+  if (!source) {
+    throw new Error(`Variant ${variant.id} is not in storage`);
+  }
+
+  const cachedPath = `${source.path.replace(/\.[^./]+$/, "")}.${format}.bin`;
+  if (await fileExists(cachedPath)) {
+    return readFile(cachedPath);
+  }
+
+  const { data, info } = await sharp(await readFile(source.path)).removeAlpha().toColourspace("srgb").raw().toBuffer({ resolveWithObject: true });
+  const framebuffer = encodeFramebuffer(data, info.width, info.height, format);
+
+  await writeFile(cachedPath, framebuffer, "application/octet-stream");
+  console.log(`Cached ${format} framebuffer for variant ${variant.id}: ${cachedPath}`);
+
+  return framebuffer;
+}
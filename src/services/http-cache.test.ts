@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { etagMatches, parseRange } from "./http-cache.ts";
+
+describe("parseRange", () => {
+  it("reads a closed range", () => {
+    assert.deepEqual(parseRange("bytes=100-199", 1000), { start: 100, end: 199 });
+  });
+
+  it("reads a single-byte range", () => {
+    assert.deepEqual(parseRange("bytes=0-0", 1000), { start: 0, end: 0 });
+  });
+
+  it("runs an open range to the end", () => {
+    assert.deepEqual(parseRange("bytes=900-", 1000), { start: 900, end: 999 });
+  });
+
+  it("clamps an end past the body", () => {
+    assert.deepEqual(parseRange("bytes=900-5000", 1000), { start: 900, end: 999 });
+  });
+
+  it("reads suffix ranges, clamped to the body", () => {
+    assert.deepEqual(parseRange("bytes=-100", 1000), { start: 900, end: 999 });
+    assert.deepEqual(parseRange("bytes=-5000", 1000), { start: 0, end: 999 });
+  });
+
+  it("rejects a range starting past the end and an empty suffix", () => {
+    assert.equal(parseRange("bytes=1000-", 1000), "unsatisfiable");
+    assert.equal(parseRange("bytes=-0", 1000), "unsatisfiable");
+  });
+
+  it("ignores missing, reversed, multiple and non-byte ranges", () => {
+    assert.equal(parseRange(undefined, 1000), undefined);
+    assert.equal(parseRange("bytes=-", 1000), undefined);
+    assert.equal(parseRange("bytes=200-100", 1000), undefined);
+    assert.equal(parseRange("bytes=0-1,5-6", 1000), undefined);
+    assert.equal(parseRange("items=0-1", 1000), undefined);
+  });
+});
+
+describe("etagMatches", () => {
+  const etag = '"abc123"';
+
+  it("matches the exact tag and any tag in a list", () => {
+    assert.equal(etagMatches('"abc123"', etag), true);
+    assert.equal(etagMatches('"other", "abc123"', etag), true);
+  });
+
+  it("matches weak tags", () => {
+    assert.equal(etagMatches('W/"abc123"', etag), true);
+  });
+
+  it("matches *", () => {
+    assert.equal(etagMatches(" * ", etag), true);
+  });
+
+  it("rejects other tags and a missing header", () => {
+    assert.equal(etagMatches('"abc124"', etag), false);
+    assert.equal(etagMatches("abc123", etag), false);
+    assert.equal(etagMatches(undefined, etag), false);
+  });
+});
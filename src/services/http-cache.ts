@@ -0,0 +1,66 @@
+/**
+ * Conditional and partial requests
+ * ETags and byte ranges for image downloads, so devices can keep a flash cache and resume interrupted downloads
+ */
+
+import { createHash } from "node:crypto";
+
+export type ByteRange = {
+  start: number;
+  end: number; // Inclusive
+};
+
+/**
+ * Strong ETag for some bytes: their MD5, the same hash storage reports for a file
+ */
+export function etagForBytes(bytes: Uint8Array): string {
+  return `"${createHash("md5").update(bytes).digest("hex")}"`;
+}
+
+export function etagForMd5(md5: string): string {
+  return `"${md5}"`;
+}
+
+/**
+ * Whether an If-None-Match header names the ETag (weak comparison, as for GET)
+ */
+export function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  if (ifNoneMatch.trim() === "*") {
+    return true;
+  }
+  return ifNoneMatch.split(",").some((candidate) => candidate.trim().replace(/^W\//, "") === etag);
+}
+
+/**
+ * Parse a Range header for a body of `size` bytes
+ * Only a single bytes range is honoured; anything else is ignored and the whole body sent.
+ * Returns "unsatisfiable" for a range that starts past the end
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | "unsatisfiable" | undefined {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return undefined;
+  }
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const length = parseInt(match[2], 10);
+    if (length === 0) {
+      return "unsatisfiable";
+    }
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  if (start >= size) {
+    return "unsatisfiable";
+  }
+  if (end < start) {
+    return undefined;
+  }
+  return { start, end };
+}
@@ -0,0 +1,79 @@
+/**
+ * Image delivery
+ * How devices reach variant files: straight from a public bucket, through short-lived V4 signed URLs made
+ * on each queue fetch, or streamed through the device-authenticated image route. IMAGE_DELIVERY picks the
+ * mode; the last two work with a private bucket
+ */
+
+import type { QueueItem } from "./slideshow-queue.ts";
+import { getSignedUrl, storagePathFromUrl } from "./storage.ts";
+
+export type ImageDeliveryMode = "public" | "signed" | "proxy";
+
+export const IMAGE_DELIVERY_MODES: ImageDeliveryMode[] = ["public", "signed", "proxy"];
+export const DEFAULT_IMAGE_DELIVERY: ImageDeliveryMode = "public";
+
+// Long enough to download a fetched batch, short enough that a leaked URL soon stops working
+const SIGNED_URL_MINUTES = 30;
+
+/**
+ * Resolve the delivery mode by name, falling back to the default for unknown names
+ */
+export function getImageDeliveryMode(name: string | undefined = process.env.IMAGE_DELIVERY): ImageDeliveryMode {
+  if (!name) {
+    return DEFAULT_IMAGE_DELIVERY;
+  }
+  if (!IMAGE_DELIVERY_MODES.includes(name as ImageDeliveryMode)) {
+    console.warn(`Unknown image delivery mode "${name}", using ${DEFAULT_IMAGE_DELIVERY}`);
+    return DEFAULT_IMAGE_DELIVERY;
+  }
+  return name as ImageDeliveryMode;
+}
+
+/**
+ * URL a device downloads one of an item's images from
+ * Proxied images point at the image route on `baseUrl` by blob hash and layout; an image without a blob hash
+ * can't be looked up there, so it gets a signed URL instead
+ */
+export async function deliverImageUrl(
+  item: QueueItem,
+  image: QueueItem["images"][number],
+  deviceId: string,
+  baseUrl: string,
+  mode: ImageDeliveryMode = getImageDeliveryMode()
+): Promise<string> {
+  if (mode === "public") {
+    return image.url;
+  }
+  if (mode === "proxy" && image.blob_hash) {
+    return `${baseUrl}/api/devices/${deviceId}/images/${image.blob_hash}?layout=${item.layoutType}`;
+  }
+  return getSignedUrl(storagePathFromUrl(image.url), SIGNED_URL_MINUTES);
+}
+
+/**
+ * Queue items with their image URLs rewritten for the delivery mode
+ */
+export async function deliverItems(items: QueueItem[], deviceId: string, baseUrl: string, mode: ImageDeliveryMode = getImageDeliveryMode()): Promise<QueueItem[]> {
+  if (mode === "public") {
+    return items;
+  }
+
+  return Promise.all(
+    items.map(async (item) => ({
+      ...item,
+      images: await Promise.all(item.images.map(async (image) => ({ ...image, url: await deliverImageUrl(item, image, deviceId, baseUrl, mode) }))),
+    }))
+  );
+}
+
+/**
+ * URL an outside service, such as the AI model, can read a stored file from
+ * Signed unless the bucket is public, since the model can't authenticate to the image route
+ */
+export async function getReadableUrl(gcsUri: string, mode: ImageDeliveryMode = getImageDeliveryMode()): Promise<string> {
+  if (mode === "public") {
+    return gcsUri.replace(/^gs:\/\//, "https://storage.googleapis.com/");
+  }
+  return getSignedUrl(storagePathFromUrl(gcsUri), SIGNED_URL_MINUTES);
+}
@@ -21,6 +21,9 @@ export type StagedImageInput = {
   origin: "upload" | "url" | "google_photos";
   userId?: string;
   externalId?: string; // Google Photos ID, URL, etc.
+  externalCreatedAt?: string; // Capture time from the origin, used when the file has no EXIF date
+  cameraMake?: string;
+  cameraModel?: string;
 };
 
 export type IngestionResult = {
@@ -83,6 +86,9 @@ export async function stageImageForProcessing(input: StagedImageInput): Promise<
       blob_hash: undefined, // Will be set by processor
       origin: input.origin,
       external_id: input.externalId,
+      external_created_at: input.externalCreatedAt,
+      camera_make: input.cameraMake,
+      camera_model: input.cameraModel,
       status: "staged",
       status_message: "Awaiting processing",
       staging_path: stagingPath,
@@ -227,6 +233,9 @@ export async function ingestFromGooglePhotos(
           localPath: tempPath, // Use Google Photos ID as identifier (will be resolved by processor)
           origin: "google_photos",
           externalId: image.id,
+          externalCreatedAt: image.createTime,
+          cameraMake: image.mediaFile.mediaFileMetadata.cameraMake,
+          cameraModel: image.mediaFile.mediaFileMetadata.cameraModel,
           userId: undefined, // Set by upstream auth context
         });
 
@@ -351,3 +351,45 @@ export function selectBestLayout(
   // Return the layout with minimum crop (first in sorted array)
   return evaluations[0];
 }
+
+/**
+ * Size of one image slot for a layout, splitting the long edge into equal parts separated by the gap
+ * Matches the slot sizes the processor generates variants at
+ */
+export function calculateLayoutSlotSize(
+  deviceWidth: number,
+  deviceHeight: number,
+  gap: number,
+  layoutType: "monotych" | "diptych" | "triptych"
+): { width: number; height: number } {
+  const slots = layoutType === "triptych" ? 3 : layoutType === "diptych" ? 2 : 1;
+
+  if (deviceHeight > deviceWidth) {
+    return { width: deviceWidth, height: Math.floor((deviceHeight - gap * (slots - 1)) / slots) };
+  }
+  return { width: Math.floor((deviceWidth - gap * (slots - 1)) / slots), height: deviceHeight };
+}
+
+/**
+ * Position and size of every slot for a layout, left to right (top to bottom on portrait devices)
+ */
+export function calculateLayoutSlotBoxes(
+  deviceWidth: number,
+  deviceHeight: number,
+  gap: number,
+  layoutType: "monotych" | "diptych" | "triptych"
+): { x: number; y: number; width: number; height: number }[] {
+  const slots = layoutType === "triptych" ? 3 : layoutType === "diptych" ? 2 : 1;
+  const slot = calculateLayoutSlotSize(deviceWidth, deviceHeight, gap, layoutType);
+  const stacked = deviceHeight > deviceWidth;
+
+  return Array.from({ length: slots }, (_, index) => ({
+    x: stacked ? 0 : index * (slot.width + gap),
+    y: stacked ? index * (slot.height + gap) : 0,
+    width: slot.width,
+    height: slot.height,
+  }));
+}
+
+// Images needing more crop than this for a slot (see calculateCropPercentage) get no variant for that layout
+export const MAX_CROP_PERCENTAGE = 50;
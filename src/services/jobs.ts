@@ -16,6 +16,22 @@ export type ProcessingBatch = {
 };
 
 export async function runJob(targetId: string, config: JobQueueConfig = { projectId: process.env.GCP_PROJECT_ID, region: "northamerica-northeast1", jobName: "slideshow-processor" }) {
+  await executeJob(config, { TARGET_FILE_ID: targetId });
+}
+
+/**
+ * Start the variant backfill job for a backfill record
+ * The secret authenticates the job's calls back to /api/backfill/:jobId
+ */
+export async function runBackfillJob(
+  backfillId: string,
+  secret: string,
+  config: JobQueueConfig = { projectId: process.env.GCP_PROJECT_ID, region: "northamerica-northeast1", jobName: "slideshow-backfill" }
+) {
+  await executeJob(config, { TARGET_BACKFILL_ID: backfillId, BACKFILL_JOB_SECRET: secret });
+}
+
+async function executeJob(config: JobQueueConfig, env: Record<string, string>) {
   const client = new JobsClient();
   const jobPath = `projects/${config.projectId}/locations/${config.region}/jobs/${config.jobName}`;
   try {
@@ -25,12 +41,7 @@ export async function runJob(targetId: string, config: JobQueueConfig = { projec
       overrides: {
         containerOverrides: [
           {
-            env: [
-              {
-                name: "TARGET_FILE_ID",
-                value: targetId,
-              },
-            ],
+            env: Object.entries(env).map(([name, value]) => ({ name, value })),
           },
         ],
       },
@@ -0,0 +1,88 @@
+/**
+ * "On this day" memories
+ * Matches images captured on today's month and day in earlier years, in the device's local calendar
+ */
+
+import type { Blob } from "../db/types.ts";
+import { getLocalDate, type LocalDate, type LocalTime } from "./content-schedule.ts";
+
+export type QueueMode = "default" | "on_this_day";
+
+export type OnThisDaySummary = {
+  date: string; // "MM-DD" local date the queue was built for
+  images: number; // Distinct matching images
+  mode: "only" | "favoured"; // Queue limited to memories, or memories mixed in with extra weight
+};
+
+// Fewer memories than this are mixed into the normal rotation instead of filling the queue alone
+export const ON_THIS_DAY_MIN_IMAGES = 6;
+export const ON_THIS_DAY_BIAS_WEIGHT = 5;
+
+const TAKEN_AT_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+
+/**
+ * Check whether a value names a queue mode
+ */
+export function isQueueMode(mode: unknown): mode is QueueMode {
+  return mode === "default" || mode === "on_this_day";
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/**
+ * Calendar date of a capture time
+ * EXIF times are local to where the photo was taken, so their recorded date is used as is;
+ * Google Photos reports UTC, so those are converted to the device's time zone
+ */
+function getCaptureDate(takenAt: string, source: Blob["taken_at_source"], timezone: string | undefined): LocalDate | undefined {
+  if (source === "google_photos") {
+    const instant = new Date(takenAt);
+    return Number.isNaN(instant.getTime()) ? undefined : getLocalDate(timezone, instant);
+  }
+
+  const match = TAKEN_AT_PATTERN.exec(takenAt);
+  return match ? { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10) } : undefined;
+}
+
+/**
+ * Check whether a capture time falls on the same month and day as today in an earlier year
+ * Leap-day photos surface on 28 February in other years
+ */
+export function isOnThisDay(
+  takenAt: string | undefined,
+  today: LocalDate,
+  { source, timezone }: { source?: Blob["taken_at_source"]; timezone?: string } = {}
+): boolean {
+  const captured = takenAt ? getCaptureDate(takenAt, source, timezone) : undefined;
+  if (!captured) {
+    return false;
+  }
+
+  let day = captured.day;
+  if (captured.year >= today.year) {
+    return false;
+  }
+  if (captured.month === 2 && day === 29 && !isLeapYear(today.year)) {
+    day = 28;
+  }
+
+  return captured.month === today.month && day === today.day;
+}
+
+/**
+ * Format a local date as "MM-DD"
+ */
+export function formatMonthDay(date: LocalDate): string {
+  return `${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+/**
+ * Time of the next local midnight, when the set of memories changes
+ */
+export function getNextLocalMidnight(localTime: LocalTime, now: Date = new Date()): Date {
+  const next = new Date(now.getTime() + (1440 - localTime.minutes) * 60 * 1000);
+  next.setUTCSeconds(0, 0);
+  return next;
+}
@@ -0,0 +1,245 @@
+/**
+ * Frame overlays
+ * Per-device widgets (clock, date, caption, weather) drawn over composited frames, in colors from the
+ * item's Material scheme and moved away from the parts of the photo the AI marked as important
+ */
+
+import { Buffer } from "node:buffer";
+import { getBlob } from "../db/helpers-firestore.ts";
+import type { Blob, Device } from "../db/types.ts";
+import { getLightScheme } from "./color-scheme.ts";
+import { getLocalDate, getLocalTime } from "./content-schedule.ts";
+import type { QueueItem } from "./slideshow-queue.ts";
+import { getCurrentWeather } from "./weather.ts";
+
+export type OverlayWidgetType = "clock" | "date" | "caption" | "weather";
+export type OverlayPosition = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export type OverlayWidget = {
+  type: OverlayWidgetType;
+  position: OverlayPosition; // Preferred corner; the widget moves if it would cover a region of interest
+  size?: number; // Text height in pixels, defaults to a fraction of the frame height
+  hour12?: boolean; // Clock only
+  field?: "title" | "description"; // Caption only, defaults to title
+  latitude?: number; // Weather only
+  longitude?: number;
+  units?: "c" | "f"; // Weather only, defaults to c
+};
+
+type Box = { x: number; y: number; width: number; height: number };
+
+const WIDGET_TYPES: OverlayWidgetType[] = ["clock", "date", "caption", "weather"];
+const POSITIONS: OverlayPosition[] = ["top-left", "top-right", "bottom-left", "bottom-right"];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Default text height as a share of the frame height
+const DEFAULT_SIZE_RATIO = 0.045;
+const MIN_SIZE = 12;
+const MAX_CAPTION_LENGTH = 60;
+
+// Regions ranked up to this (eyes, heads, upper bodies) are kept clear
+const MAX_AVOIDED_RANK = 3;
+
+/**
+ * Validate overlays from a request body
+ * Throws with a readable message on the first invalid widget
+ */
+export function parseOverlays(value: unknown): OverlayWidget[] {
+  if (!Array.isArray(value)) {
+    throw new Error("overlays must be an array");
+  }
+
+  return value.map((raw, index) => {
+    const widget = (raw ?? {}) as Partial<OverlayWidget>;
+    const label = `overlays[${index}]`;
+
+    if (!WIDGET_TYPES.includes(widget.type as OverlayWidgetType)) {
+      throw new Error(`${label}.type must be one of ${WIDGET_TYPES.join(", ")}`);
+    }
+    if (!POSITIONS.includes(widget.position as OverlayPosition)) {
+      throw new Error(`${label}.position must be one of ${POSITIONS.join(", ")}`);
+    }
+    if (widget.size !== undefined && (typeof widget.size !== "number" || widget.size < MIN_SIZE)) {
+      throw new Error(`${label}.size must be a number of at least ${MIN_SIZE}`);
+    }
+    if (widget.hour12 !== undefined && typeof widget.hour12 !== "boolean") {
+      throw new Error(`${label}.hour12 must be a boolean`);
+    }
+    if (widget.field !== undefined && widget.field !== "title" && widget.field !== "description") {
+      throw new Error(`${label}.field must be "title" or "description"`);
+    }
+    if (widget.type === "weather") {
+      if (typeof widget.latitude !== "number" || widget.latitude < -90 || widget.latitude > 90) {
+        throw new Error(`${label}.latitude must be between -90 and 90`);
+      }
+      if (typeof widget.longitude !== "number" || widget.longitude < -180 || widget.longitude > 180) {
+        throw new Error(`${label}.longitude must be between -180 and 180`);
+      }
+    }
+    if (widget.units !== undefined && widget.units !== "c" && widget.units !== "f") {
+      throw new Error(`${label}.units must be "c" or "f"`);
+    }
+
+    return {
+      type: widget.type!,
+      position: widget.position!,
+      size: widget.size,
+      hour12: widget.hour12,
+      field: widget.field,
+      latitude: widget.latitude,
+      longitude: widget.longitude,
+      units: widget.units,
+    };
+  });
+}
+
+export function parseStoredOverlays(overlaysJson: string | undefined): OverlayWidget[] {
+  return overlaysJson ? (JSON.parse(overlaysJson) as OverlayWidget[]) : [];
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function overlapArea(a: Box, b: Box): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+/**
+ * The text a widget shows right now, or undefined when there is nothing to show
+ */
+async function widgetText(widget: OverlayWidget, device: Device, blob: Blob | undefined, now: Date): Promise<string | undefined> {
+  switch (widget.type) {
+    case "clock": {
+      const { minutes } = getLocalTime(device.timezone, now);
+      const hours = Math.floor(minutes / 60);
+      const clockMinutes = String(minutes % 60).padStart(2, "0");
+      return widget.hour12 ? `${hours % 12 || 12}:${clockMinutes} ${hours < 12 ? "AM" : "PM"}` : `${String(hours).padStart(2, "0")}:${clockMinutes}`;
+    }
+    case "date": {
+      const { day } = getLocalTime(device.timezone, now);
+      const date = getLocalDate(device.timezone, now);
+      return `${WEEKDAYS[day]} ${MONTHS[date.month - 1]} ${date.day}`;
+    }
+    case "caption": {
+      const caption = blob?.[widget.field ?? "title"]?.trim();
+      return caption && caption.length > MAX_CAPTION_LENGTH ? `${caption.slice(0, MAX_CAPTION_LENGTH - 1).trimEnd()}…` : caption || undefined;
+    }
+    case "weather": {
+      const weather = await getCurrentWeather(widget.latitude!, widget.longitude!);
+      if (!weather) {
+        return undefined;
+      }
+      const temperature = widget.units === "f" ? weather.temperature_c * 1.8 + 32 : weather.temperature_c;
+      return `${Math.round(temperature)}°${widget.units === "f" ? "F" : "C"} ${weather.condition}`;
+    }
+  }
+}
+
+/**
+ * Regions of interest from the images' AI analysis, in frame pixels
+ * The processor's entropy crop isn't recorded, so mapping assumes a centred cover crop; close enough to steer clear of faces
+ */
+function regionsOfInterest(item: QueueItem, blobs: (Blob | undefined)[], slots: Box[]): Box[] {
+  if (item.layoutType === "panorama") {
+    return [];
+  }
+
+  return blobs.flatMap((blob, index) => {
+    const slot = slots[index];
+    if (!blob?.analysis || !slot) {
+      return [];
+    }
+
+    const scale = Math.max(slot.width / blob.width, slot.height / blob.height);
+    const offsetX = (blob.width * scale - slot.width) / 2;
+    const offsetY = (blob.height * scale - slot.height) / 2;
+
+    return blob.analysis.smart_crop.regions_of_interest
+      .filter((region) => region.importance_rank <= MAX_AVOIDED_RANK && region.box_2d.length === 4)
+      .map((region) => {
+        const [ymin, xmin, ymax, xmax] = region.box_2d;
+        const left = Math.max(slot.x, slot.x + xmin * blob.width * scale - offsetX);
+        const top = Math.max(slot.y, slot.y + ymin * blob.height * scale - offsetY);
+        const right = Math.min(slot.x + slot.width, slot.x + xmax * blob.width * scale - offsetX);
+        const bottom = Math.min(slot.y + slot.height, slot.y + ymax * blob.height * scale - offsetY);
+        return { x: left, y: top, width: right - left, height: bottom - top };
+      })
+      .filter((box) => box.width > 0 && box.height > 0);
+  });
+}
+
+/**
+ * Corners to try for a widget: the preferred one, then across, then up or down, then opposite
+ */
+function candidatePositions(position: OverlayPosition): OverlayPosition[] {
+  const [vertical, horizontal] = position.split("-");
+  const otherVertical = vertical === "top" ? "bottom" : "top";
+  const otherHorizontal = horizontal === "left" ? "right" : "left";
+  return [position, `${vertical}-${otherHorizontal}`, `${otherVertical}-${horizontal}`, `${otherVertical}-${otherHorizontal}`] as OverlayPosition[];
+}
+
+/**
+ * Render a device's overlays for an item as an SVG the size of the frame
+ * Undefined when the device has no overlays or none of them has anything to show
+ */
+export async function renderOverlays(device: Device, item: QueueItem, slots: Box[], now: Date = new Date()): Promise<Buffer | undefined> {
+  const widgets = parseStoredOverlays(device.overlays);
+  if (widgets.length === 0) {
+    return undefined;
+  }
+
+  const blobs = await Promise.all(item.images.map((image) => (image.blob_hash ? getBlob(image.blob_hash) : Promise.resolve(undefined))));
+  const texts = await Promise.all(widgets.map((widget) => widgetText(widget, device, blobs[0], now)));
+  const regions = regionsOfInterest(item, blobs, slots);
+
+  // Surface and onSurface are a readable pair whatever the photo behind them
+  const scheme = getLightScheme(item.source_color ?? item.images[0]?.source_color ?? "#4285F4");
+
+  // How far each corner's stack of widgets already reaches from its edge
+  const stacked = new Map<OverlayPosition, number>();
+  const elements: string[] = [];
+
+  widgets.forEach((widget, index) => {
+    const text = texts[index];
+    if (!text) {
+      return;
+    }
+
+    const size = widget.size ?? Math.max(MIN_SIZE, Math.round(device.height * DEFAULT_SIZE_RATIO));
+    const margin = Math.round(size * 0.75);
+    // Text isn't measured; an average glyph is a little over half the text height wide
+    const width = Math.min(device.width - margin * 2, Math.round(text.length * size * 0.58 + size));
+    const height = Math.round(size * 1.6);
+
+    const placements = candidatePositions(widget.position).map((position) => {
+      const offset = stacked.get(position) ?? 0;
+      const box = {
+        x: position.endsWith("left") ? margin : device.width - margin - width,
+        y: position.startsWith("top") ? margin + offset : device.height - margin - offset - height,
+        width,
+        height,
+      };
+      return { position, box, covered: regions.reduce((total, region) => total + overlapArea(box, region), 0) };
+    });
+    const { position, box } = placements.find((placement) => placement.covered === 0) ?? placements.reduce((best, placement) => (placement.covered < best.covered ? placement : best));
+
+    stacked.set(position, (stacked.get(position) ?? 0) + height + Math.round(margin / 2));
+    elements.push(
+      `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="${Math.round(height / 2)}" fill="${scheme.surface}" fill-opacity="0.8"/>`,
+      `<text x="${box.x + Math.round(size / 2)}" y="${box.y + Math.round(height / 2 + size * 0.35)}" font-size="${size}" fill="${scheme.onSurface}">${escapeXml(text)}</text>`
+    );
+  });
+
+  if (elements.length === 0) {
+    return undefined;
+  }
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${device.width}" height="${device.height}"><g font-family="sans-serif">${elements.join("")}</g></svg>`
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * Pairing compatibility scorer
+ * Rates how well images sit together in a diptych or triptych and builds high-scoring groups
+ */
+
+import type { AIAnalysis } from "./ai.ts";
+import { calculatePaletteSimilarity, type ColorPalette } from "./color-palette.ts";
+import { findDirectionalityClash } from "./directionality.ts";
+import { areImagesCompatibleForPairing } from "./image-layout.ts";
+import type { Rng } from "./queue-strategies.ts";
+
+export type PairingImage = {
+  width: number;
+  height: number;
+  palette?: ColorPalette;
+  analysis?: AIAnalysis;
+};
+
+export type PairingComponent = "aspect" | "palette" | "mood" | "time_of_day" | "clutter";
+
+export type PairingScore = {
+  score: number; // 0 (clashing) to 1 (ideal)
+  components: Record<
+    PairingComponent,
+    {
+      score: number; // 0 to 1, averaged over every pair in the group
+      weight: number;
+      detail: string;
+    }
+  >;
+};
+
+const COMPONENT_WEIGHTS: Record<PairingComponent, number> = {
+  aspect: 0.3,
+  palette: 0.25,
+  mood: 0.15,
+  time_of_day: 0.1,
+  clutter: 0.2,
+};
+
+// Score used when either image lacks the data a component needs
+const NEUTRAL_SCORE = 0.5;
+
+// Leading candidates considered per slot, and how many of the best are drawn from at random
+const PAIRING_SAMPLE_SIZE = 32;
+const PAIRING_TOP_CHOICES = 3;
+
+type PairScore = { score: number; detail: string };
+
+function scoreAspect(a: PairingImage, b: PairingImage): PairScore {
+  if (areImagesCompatibleForPairing(a.width, a.height, b.width, b.height)) {
+    return { score: 1, detail: "matching portrait ratios" };
+  }
+  // Penalise by how far apart the ratios are; a 2x difference scores 0
+  const ratioGap = Math.abs(Math.log(a.width / a.height / (b.width / b.height)));
+  return { score: Math.max(0, 1 - ratioGap / Math.LN2), detail: `ratios ${(a.width / a.height).toFixed(2)} and ${(b.width / b.height).toFixed(2)}` };
+}
+
+function scorePalette(a: PairingImage, b: PairingImage): PairScore {
+  if (!a.palette || !b.palette) {
+    return { score: NEUTRAL_SCORE, detail: "palette missing" };
+  }
+  return { score: 1 - calculatePaletteSimilarity(a.palette, b.palette), detail: `${a.palette.primary} vs ${b.palette.primary}` };
+}
+
+function scoreLabel(a: string | undefined, b: string | undefined): PairScore {
+  if (!a || !b) {
+    return { score: NEUTRAL_SCORE, detail: "not analyzed" };
+  }
+  const same = a.trim().toLowerCase() === b.trim().toLowerCase();
+  return { score: same ? 1 : 0, detail: same ? a : `${a} vs ${b}` };
+}
+
+function scoreClutter(a: PairingImage, b: PairingImage): PairScore {
+  const clutterA = a.analysis?.image_analysis.composition?.clutter_score;
+  const clutterB = b.analysis?.image_analysis.composition?.clutter_score;
+  if (clutterA === undefined || clutterB === undefined) {
+    return { score: NEUTRAL_SCORE, detail: "not analyzed" };
+  }
+  return { score: 1 - Math.min(1, Math.abs(clutterA - clutterB)), detail: `clutter ${clutterA.toFixed(2)} and ${clutterB.toFixed(2)}` };
+}
+
+const COMPONENT_SCORERS: Record<PairingComponent, (a: PairingImage, b: PairingImage) => PairScore> = {
+  aspect: scoreAspect,
+  palette: scorePalette,
+  mood: (a, b) => scoreLabel(a.analysis?.image_analysis.mood, b.analysis?.image_analysis.mood),
+  time_of_day: (a, b) => scoreLabel(a.analysis?.image_analysis.time_of_day, b.analysis?.image_analysis.time_of_day),
+  clutter: scoreClutter,
+};
+
+/**
+ * Score a group of two or three images for a multi-image slide
+ * Each component is averaged over every pair, then combined by weight
+ */
+export function scorePairing(images: PairingImage[]): PairingScore {
+  const pairs: [PairingImage, PairingImage][] = [];
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      pairs.push([images[i], images[j]]);
+    }
+  }
+
+  const components = {} as PairingScore["components"];
+  let score = 0;
+
+  for (const component of Object.keys(COMPONENT_WEIGHTS) as PairingComponent[]) {
+    const pairScores = pairs.map(([a, b]) => COMPONENT_SCORERS[component](a, b));
+    const average = pairScores.length > 0 ? pairScores.reduce((sum, pair) => sum + pair.score, 0) / pairScores.length : NEUTRAL_SCORE;
+
+    components[component] = {
+      score: parseFloat(average.toFixed(3)),
+      weight: COMPONENT_WEIGHTS[component],
+      detail: pairScores.map((pair) => pair.detail).join("; "),
+    };
+    score += average * COMPONENT_WEIGHTS[component];
+  }
+
+  return { score: parseFloat(score.toFixed(3)), components };
+}
+
+export type ScoredGroupOptions<T> = {
+  imageOf: (candidate: T) => PairingImage;
+  directionalityOf?: (candidate: T) => number | undefined;
+  rng: Rng;
+};
+
+/**
+ * Build a group around an anchor image, filling each remaining slot with one of the
+ * best-scoring partners (chosen at random, weighted by score) from the first candidates
+ * Candidates come in the queue strategy's order, which breaks ties between equal scores
+ * The final slot avoids partners that leave every image flowing toward the same edge when possible
+ */
+export function buildScoredGroup<T extends { blob_hash: string }>(anchor: T, candidates: T[], count: number, options: ScoredGroupOptions<T>): T[] {
+  const group = [anchor];
+  const used = new Set([anchor.blob_hash]);
+
+  // Only score the strategy's leading picks to keep scoring cheap on large libraries
+  const sample: T[] = [];
+  const sampled = new Set<string>();
+  for (const candidate of candidates) {
+    if (sample.length >= PAIRING_SAMPLE_SIZE) {
+      break;
+    }
+    if (!used.has(candidate.blob_hash) && !sampled.has(candidate.blob_hash)) {
+      sample.push(candidate);
+      sampled.add(candidate.blob_hash);
+    }
+  }
+
+  while (group.length < count) {
+    let partners = sample.filter((candidate) => !used.has(candidate.blob_hash));
+    if (partners.length === 0) {
+      break;
+    }
+
+    const directionalityOf = options.directionalityOf;
+    if (directionalityOf && group.length === count - 1) {
+      const clean = partners.filter((partner) => findDirectionalityClash([...group, partner].map(directionalityOf)) === -1);
+      if (clean.length > 0) {
+        partners = clean;
+      }
+    }
+
+    // sort is stable, so equal scores keep the strategy's order
+    const ranked = partners
+      .map((partner) => ({ partner, score: scorePairing([...group, partner].map(options.imageOf)).score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, PAIRING_TOP_CHOICES);
+
+    const total = ranked.reduce((sum, entry) => sum + entry.score, 0);
+    let roll = options.rng() * total;
+    let chosen = ranked[0].partner;
+    for (const entry of ranked) {
+      roll -= entry.score;
+      if (roll < 0) {
+        chosen = entry.partner;
+        break;
+      }
+    }
+
+    group.push(chosen);
+    used.add(chosen.blob_hash);
+  }
+
+  return group;
+}
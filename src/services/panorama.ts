@@ -0,0 +1,116 @@
+/**
+ * Group panoramas
+ * A lockstep group whose frames hang side by side can describe where each one sits on the wall;
+ * one image is then sliced across them, skipping the bezels and gaps in between
+ */
+
+import { getAllDevices, getAllDeviceGroups } from "../db/helpers-firestore.ts";
+import type { Device, DeviceGroup } from "../db/types.ts";
+import { calculateCropPercentage, MAX_CROP_PERCENTAGE } from "./image-layout.ts";
+
+export type PanelPlacement = {
+  device_id: string;
+  x_mm: number; // Top-left corner of the visible screen area on the wall
+  y_mm: number;
+  width_mm: number; // Visible screen area, excluding the bezel
+  height_mm: number;
+};
+
+// What the processor needs to slice an image for a group, matching SpanArrangement in processor/panorama.ts
+export type SpanArrangement = {
+  group_id: string;
+  panels: Array<PanelPlacement & { width: number; height: number }>;
+};
+
+/**
+ * Validate an arrangement from a request body against the group's members
+ * Throws with a readable message on the first problem
+ */
+export function validateArrangement(value: unknown, deviceIds: string[]): PanelPlacement[] {
+  if (!Array.isArray(value)) {
+    throw new Error("arrangement must be an array of panel placements");
+  }
+
+  const placements = value.map((entry, index) => {
+    const { device_id, x_mm, y_mm, width_mm, height_mm } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof device_id !== "string" || !deviceIds.includes(device_id)) {
+      throw new Error(`arrangement[${index}].device_id must be a member of the group`);
+    }
+    for (const [field, size] of Object.entries({ x_mm, y_mm })) {
+      if (typeof size !== "number" || !Number.isFinite(size)) {
+        throw new Error(`arrangement[${index}].${field} must be a number`);
+      }
+    }
+    for (const [field, size] of Object.entries({ width_mm, height_mm })) {
+      if (typeof size !== "number" || !Number.isFinite(size) || size <= 0) {
+        throw new Error(`arrangement[${index}].${field} must be a positive number`);
+      }
+    }
+    return { device_id, x_mm, y_mm, width_mm, height_mm } as PanelPlacement;
+  });
+
+  if (placements.length !== deviceIds.length || new Set(placements.map((placement) => placement.device_id)).size !== deviceIds.length) {
+    throw new Error("arrangement must place every member of the group exactly once");
+  }
+
+  return placements;
+}
+
+export function parseArrangement(arrangementJson: string | undefined): PanelPlacement[] {
+  return arrangementJson ? (JSON.parse(arrangementJson) as PanelPlacement[]) : [];
+}
+
+/**
+ * Combine a group's arrangement with its members' resolutions
+ * Returns null for groups that can't span: not lockstep, no arrangement, or members it doesn't place
+ */
+export function buildSpanArrangement(group: DeviceGroup, devices: Map<string, Device>): SpanArrangement | null {
+  const placements = parseArrangement(group.arrangement);
+  if (group.mode !== "lockstep" || placements.length < 2) {
+    return null;
+  }
+
+  const members = new Set(group.device_ids);
+  if (placements.length !== members.size || placements.some((placement) => !members.has(placement.device_id) || !devices.has(placement.device_id))) {
+    console.warn(`Device group ${group.id} arrangement doesn't match its members, skipping panoramas`);
+    return null;
+  }
+
+  return {
+    group_id: group.id,
+    panels: placements.map((placement) => ({
+      ...placement,
+      width: devices.get(placement.device_id)!.width,
+      height: devices.get(placement.device_id)!.height,
+    })),
+  };
+}
+
+/**
+ * Every group the processor should slice panoramas for
+ */
+export async function getSpanArrangements(): Promise<SpanArrangement[]> {
+  const [groups, devices] = await Promise.all([getAllDeviceGroups(), getAllDevices()]);
+  const deviceMap = new Map(devices.map((device) => [device.id, device]));
+
+  return groups.flatMap((group) => {
+    const span = buildSpanArrangement(group, deviceMap);
+    return span ? [span] : [];
+  });
+}
+
+/**
+ * Percentage of an image cropped away to cover the whole arrangement, as the processor calculates it
+ */
+export function calculateSpanCropPercentage(imageWidth: number, imageHeight: number, span: SpanArrangement): number {
+  const left = Math.min(...span.panels.map((panel) => panel.x_mm));
+  const top = Math.min(...span.panels.map((panel) => panel.y_mm));
+  const right = Math.max(...span.panels.map((panel) => panel.x_mm + panel.width_mm));
+  const bottom = Math.max(...span.panels.map((panel) => panel.y_mm + panel.height_mm));
+
+  return calculateCropPercentage(imageWidth, imageHeight, right - left, bottom - top);
+}
+
+export function isSpanEligible(imageWidth: number, imageHeight: number, span: SpanArrangement): boolean {
+  return calculateSpanCropPercentage(imageWidth, imageHeight, span) <= MAX_CROP_PERCENTAGE;
+}
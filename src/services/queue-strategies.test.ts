@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { DeviceVariant, LayoutType } from "../db/types.ts";
+import { createSeededRng, getQueueStrategy, isQueueStrategyName, isValidLayoutWeights, type QueueStrategyContext, type QueueStrategyName } from "./queue-strategies.ts";
+
+const SEED = 42;
+const LAYOUTS: LayoutType[] = ["monotych", "diptych", "triptych"];
+const BLOBS = ["a", "b", "c", "d", "e"];
+
+function variant(blobHash: string, layoutType: LayoutType): DeviceVariant {
+  return {
+    id: `${blobHash}-${layoutType}`,
+    device: "test-device",
+    blob_hash: blobHash,
+    width: 800,
+    height: 480,
+    orientation: "landscape",
+    layout_type: layoutType,
+    storage_path: `processed/${blobHash}/${layoutType}.jpg`,
+    processed_at: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+function createContext(): QueueStrategyContext {
+  return {
+    layouts: LAYOUTS,
+    variantsByLayout: new Map(LAYOUTS.map((layout) => [layout, BLOBS.map((blob) => variant(blob, layout))])),
+    layoutWeights: { monotych: 3, diptych: 1, triptych: 0 },
+    lastShown: new Map([
+      ["a", 5000],
+      ["b", 1000],
+      ["c", 3000],
+    ]),
+    rng: createSeededRng(SEED),
+  };
+}
+
+function pickLayouts(name: QueueStrategyName, count: number): LayoutType[] {
+  const strategy = getQueueStrategy(name);
+  const context = createContext();
+  return Array.from({ length: count }, (_, position) => strategy.pickLayout(position, context));
+}
+
+function pickBlobs(name: QueueStrategyName, rounds: number): string[][] {
+  const strategy = getQueueStrategy(name);
+  const context = createContext();
+  return Array.from({ length: rounds }, () => strategy.pickImages("triptych", 3, context).map((picked) => picked.blob_hash));
+}
+
+describe("weighted-random", () => {
+  it("picks layouts by weight under a fixed seed", () => {
+    assert.deepEqual(pickLayouts("weighted-random", 6), ["monotych", "monotych", "diptych", "monotych", "monotych", "monotych"]);
+  });
+
+  it("shuffles images under a fixed seed", () => {
+    assert.deepEqual(pickBlobs("weighted-random", 3), [
+      ["a", "e", "c"],
+      ["d", "b", "e"],
+      ["c", "d", "a"],
+    ]);
+  });
+});
+
+describe("round-robin", () => {
+  it("cycles through layouts in order", () => {
+    assert.deepEqual(pickLayouts("round-robin", 6), ["monotych", "diptych", "triptych", "monotych", "diptych", "triptych"]);
+  });
+
+  it("shuffles images under a fixed seed", () => {
+    assert.deepEqual(pickBlobs("round-robin", 3), [
+      ["a", "e", "c"],
+      ["d", "b", "e"],
+      ["c", "d", "a"],
+    ]);
+  });
+});
+
+describe("least-recently-shown", () => {
+  it("picks layouts by weight under a fixed seed", () => {
+    assert.deepEqual(pickLayouts("least-recently-shown", 6), ["monotych", "monotych", "diptych", "monotych", "monotych", "monotych"]);
+  });
+
+  it("fills slots with never-shown images first, then the oldest", () => {
+    assert.deepEqual(pickBlobs("least-recently-shown", 3), [
+      ["e", "d", "b"],
+      ["d", "e", "b"],
+      ["d", "e", "b"],
+    ]);
+  });
+});
+
+describe("isQueueStrategyName", () => {
+  it("accepts built-in strategies only", () => {
+    assert.equal(isQueueStrategyName("round-robin"), true);
+    assert.equal(isQueueStrategyName("toString"), false);
+    assert.equal(isQueueStrategyName("__proto__"), false);
+  });
+});
+
+describe("isValidLayoutWeights", () => {
+  it("accepts non-negative weights for known layouts", () => {
+    assert.equal(isValidLayoutWeights({ monotych: 2, triptych: 0 }), true);
+  });
+
+  it("rejects unknown layouts and invalid weights", () => {
+    assert.equal(isValidLayoutWeights({ panorama: 1 }), false);
+    assert.equal(isValidLayoutWeights({ diptych: -1 }), false);
+    assert.equal(isValidLayoutWeights({ diptych: "2" }), false);
+    assert.equal(isValidLayoutWeights([1, 2]), false);
+  });
+});
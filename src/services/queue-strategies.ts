@@ -0,0 +1,179 @@
+/**
+ * Queue-building strategies for slideshow generation
+ * A strategy decides which layout comes next and which images fill it
+ */
+
+import type { DeviceVariant, LayoutType } from "../db/types.ts";
+
+/**
+ * Random number source returning values in [0, 1), compatible with Math.random
+ */
+export type Rng = () => number;
+
+export type QueueStrategyName = "weighted-random" | "round-robin" | "least-recently-shown";
+
+export type LayoutWeights = Partial<Record<LayoutType, number>>;
+
+export type QueueStrategyContext = {
+  readonly layouts: LayoutType[]; // Layouts enabled on the device with enough candidates
+  readonly variantsByLayout: Map<LayoutType, DeviceVariant[]>;
+  readonly layoutWeights: LayoutWeights;
+  readonly lastShown: Map<string, number>; // blob hash -> epoch ms it was last shown
+  readonly rng: Rng;
+};
+
+export type QueueStrategy = {
+  readonly name: QueueStrategyName;
+  pickLayout(position: number, context: QueueStrategyContext): LayoutType;
+  pickImages(layoutType: LayoutType, count: number, context: QueueStrategyContext): DeviceVariant[];
+};
+
+export const LAYOUT_IMAGE_COUNTS: Record<LayoutType, number> = {
+  monotych: 1,
+  diptych: 2,
+  triptych: 3,
+};
+
+export const DEFAULT_QUEUE_STRATEGY: QueueStrategyName = "weighted-random";
+
+const DEFAULT_LAYOUT_WEIGHT = 1;
+
+/**
+ * Create a deterministic RNG from a numeric seed (mulberry32)
+ */
+export function createSeededRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffle array using Fisher-Yates algorithm
+ */
+export function shuffleArray<T>(array: T[], rng: Rng = Math.random): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Take the first `count` candidates with distinct blob hashes
+ */
+function takeUnique(candidates: DeviceVariant[], count: number): DeviceVariant[] {
+  const selected: DeviceVariant[] = [];
+  const seen = new Set<string>();
+
+  for (const candidate of candidates) {
+    if (selected.length >= count) {
+      break;
+    }
+    if (!seen.has(candidate.blob_hash)) {
+      selected.push(candidate);
+      seen.add(candidate.blob_hash);
+    }
+  }
+
+  return selected;
+}
+
+function pickShuffledImages(layoutType: LayoutType, count: number, context: QueueStrategyContext): DeviceVariant[] {
+  const candidates = context.variantsByLayout.get(layoutType) || [];
+  return takeUnique(shuffleArray(candidates, context.rng), count);
+}
+
+/**
+ * Picks layouts at random in proportion to the device's layout weights
+ */
+const weightedRandomStrategy: QueueStrategy = {
+  name: "weighted-random",
+  pickLayout(_position, context) {
+    const weights = context.layouts.map((layout) => Math.max(0, context.layoutWeights[layout] ?? DEFAULT_LAYOUT_WEIGHT));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    if (total <= 0) {
+      return context.layouts[Math.floor(context.rng() * context.layouts.length)];
+    }
+
+    let roll = context.rng() * total;
+    for (let i = 0; i < context.layouts.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) {
+        return context.layouts[i];
+      }
+    }
+    return context.layouts[context.layouts.length - 1];
+  },
+  pickImages: pickShuffledImages,
+};
+
+/**
+ * Cycles through the available layouts in order
+ */
+const roundRobinStrategy: QueueStrategy = {
+  name: "round-robin",
+  pickLayout(position, context) {
+    return context.layouts[position % context.layouts.length];
+  },
+  pickImages: pickShuffledImages,
+};
+
+/**
+ * Weighted layout choice, but always fills slots with the images that have gone longest without being shown
+ */
+const leastRecentlyShownStrategy: QueueStrategy = {
+  name: "least-recently-shown",
+  pickLayout: weightedRandomStrategy.pickLayout,
+  pickImages(layoutType, count, context) {
+    const candidates = shuffleArray(context.variantsByLayout.get(layoutType) || [], context.rng);
+    // Shuffle first so images with equal history are tie-broken randomly (sort is stable)
+    candidates.sort((a, b) => (context.lastShown.get(a.blob_hash) ?? -Infinity) - (context.lastShown.get(b.blob_hash) ?? -Infinity));
+    return takeUnique(candidates, count);
+  },
+};
+
+const strategies: Record<QueueStrategyName, QueueStrategy> = {
+  "weighted-random": weightedRandomStrategy,
+  "round-robin": roundRobinStrategy,
+  "least-recently-shown": leastRecentlyShownStrategy,
+};
+
+/**
+ * Check whether a value names a built-in strategy
+ */
+export function isQueueStrategyName(name: unknown): name is QueueStrategyName {
+  return typeof name === "string" && Object.hasOwn(strategies, name);
+}
+
+/**
+ * Check whether a value maps known layouts to non-negative weights
+ */
+export function isValidLayoutWeights(value: unknown): value is LayoutWeights {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  return Object.entries(value).every(
+    ([layout, weight]) => Object.hasOwn(LAYOUT_IMAGE_COUNTS, layout) && typeof weight === "number" && Number.isFinite(weight) && weight >= 0
+  );
+}
+
+/**
+ * Resolve a strategy by name, falling back to the default for unknown names
+ */
+export function getQueueStrategy(name?: string): QueueStrategy {
+  if (!name) {
+    return strategies[DEFAULT_QUEUE_STRATEGY];
+  }
+  if (!isQueueStrategyName(name)) {
+    console.warn(`Unknown queue strategy "${name}", using ${DEFAULT_QUEUE_STRATEGY}`);
+    return strategies[DEFAULT_QUEUE_STRATEGY];
+  }
+  return strategies[name];
+}
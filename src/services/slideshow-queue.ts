@@ -6,37 +6,107 @@
 import { QuantizerCelebi, Score, hexFromArgb, argbFromHex } from "@material/material-color-utilities";
 
 import { getFirestore, Collections } from "../db/firestore.ts";
-import { getDevice, getDeviceQueueState, updateDeviceQueueState } from "../db/helpers-firestore.ts";
-import type { DeviceVariant } from "../db/types.ts";
+import {
+  advanceDeviceQueueCursor,
+  getAlbums,
+  getDevice,
+  getDeviceGroup,
+  getDeviceQueueCursor,
+  getDeviceQueueState,
+  replaceDeviceQueue,
+  replaceDeviceQueues,
+} from "../db/helpers-firestore.ts";
+import type { Blob, DeviceVariant, LayoutType, VariantKind } from "../db/types.ts";
+import type { AIAnalysis } from "./ai.ts";
+import { calculatePaletteSimilarity, paletteFromColors, type ColorPalette } from "./color-palette.ts";
+import {
+  findActiveRule,
+  getBiasWeight,
+  getLocalDate,
+  getLocalTime,
+  getNextRuleChange,
+  matchesRule,
+  type ActiveScheduleRule,
+  type ScheduleRule,
+} from "./content-schedule.ts";
+import { getLockstepSlide, regenerateGroupQueue } from "./device-groups.ts";
+import { arrangeByDirectionality, type DirectionalityArrangement } from "./directionality.ts";
+import { createRepeatGuard, getNoRepeatWindow, recordDisplayedItems } from "./display-history.ts";
+import { isQuietTime } from "./display-schedule.ts";
+import {
+  formatMonthDay,
+  getNextLocalMidnight,
+  isOnThisDay,
+  ON_THIS_DAY_BIAS_WEIGHT,
+  ON_THIS_DAY_MIN_IMAGES,
+  type OnThisDaySummary,
+} from "./memories.ts";
+import { buildScoredGroup, type PairingImage } from "./pairing.ts";
+import { getQueueStrategy, LAYOUT_IMAGE_COUNTS, type QueueStrategyContext, type Rng } from "./queue-strategies.ts";
 import { fetchFile } from "./storage.ts";
 
-type ColorPalette = {
-  primary: string;
-  secondary: string;
-  tertiary: string;
-  sourceColor: string;
-  allColors: string[];
+export type ColorFlowSpacing<T> = {
+  keysOf: (item: T) => string[];
+  slides: number; // Items sharing a key stay at least this many slides apart
+  recent?: string[][]; // Keys of the slides shown before the first item, most recent first
 };
 
 /**
- * Calculate similarity between two color palettes
+ * Reorder items so consecutive slides move smoothly through color space
+ * Strength 0 keeps the incoming (strategy) order, 1 always steps to the closest remaining color,
+ * values in between blend color closeness with randomness.
+ * With `spacing`, items sharing a key with one of the last slides are skipped while any other item remains
  */
-function calculatePaletteSimilarity(palette1: ColorPalette, palette2: ColorPalette): number {
-  // Simple color distance calculation
-  // Returns a value between 0 (identical) and 1 (completely different)
-  const hexToRgb = (hex: string): [number, number, number] => {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? [parseInt(result[1], 16), parseInt(result[2], 16), parseInt(result[3], 16)] : [0, 0, 0];
-  };
+export function orderByColorFlow<T>(
+  items: T[],
+  paletteOf: (item: T) => ColorPalette | undefined,
+  strength: number,
+  rng: Rng = Math.random,
+  spacing?: ColorFlowSpacing<T>
+): T[] {
+  const weight = Math.min(1, Math.max(0, strength));
+  if (weight === 0 || items.length < 3) {
+    return [...items];
+  }
 
-  const colorDistance = (rgb1: [number, number, number], rgb2: [number, number, number]): number => {
-    return Math.sqrt(Math.pow(rgb1[0] - rgb2[0], 2) + Math.pow(rgb1[1] - rgb2[1], 2) + Math.pow(rgb1[2] - rgb2[2], 2)) / (255 * Math.sqrt(3)); // Normalize to 0-1
-  };
+  const remaining = [...items];
+  const ordered = [remaining.shift()!];
+  const shownKeys = [...(spacing?.recent ?? [])];
+  if (spacing) {
+    shownKeys.unshift(spacing.keysOf(ordered[0]));
+  }
+
+  while (remaining.length > 0) {
+    const current = paletteOf(ordered[ordered.length - 1]);
+    let bestIndex = 0;
+    let bestScore = -Infinity;
 
-  const primary1 = hexToRgb(palette1.primary);
-  const primary2 = hexToRgb(palette2.primary);
+    const blocked = new Set(spacing ? shownKeys.slice(0, spacing.slides).flat() : []);
+    const spaced = remaining.map((item) => !spacing || spacing.keysOf(item).every((key) => !blocked.has(key)));
+    const anySpaced = spaced.some(Boolean);
+
+    for (let i = 0; i < remaining.length; i++) {
+      if (anySpaced && !spaced[i]) {
+        continue;
+      }
+      const palette = paletteOf(remaining[i]);
+      // Items without color data sit in the middle so they neither attract nor repel
+      const closeness = current && palette ? 1 - calculatePaletteSimilarity(current, palette) : 0.5;
+      const score = weight * closeness + (1 - weight) * rng();
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    }
 
-  return colorDistance(primary1, primary2);
+    const next = remaining.splice(bestIndex, 1)[0];
+    ordered.push(next);
+    if (spacing) {
+      shownKeys.unshift(spacing.keysOf(next));
+    }
+  }
+
+  return ordered;
 }
 
 // type QueueItem = {
@@ -56,13 +126,15 @@ function calculatePaletteSimilarity(palette1: ColorPalette, palette2: ColorPalet
 // };
 
 export type QueueItem = {
-  layoutType: "monotych" | "diptych" | "triptych";
+  layoutType: VariantKind;
   images: {
     url: string;
+    blob_hash?: string;
     source_color?: string;
     color_palette?: string[];
   }[];
   source_color?: string;
+  directionality?: DirectionalityArrangement; // Multi-image layouts only
 };
 
 export type SlideshowQueue = {
@@ -70,24 +142,17 @@ export type SlideshowQueue = {
   queue: QueueItem[];
   currentIndex: number;
   generatedAt: string;
+  activeRule?: ActiveScheduleRule | null; // Content schedule rule applied at generation
+  onThisDay?: OnThisDaySummary | null; // Memories applied at generation (on_this_day mode)
+  scheduleValidUntil?: string; // ISO timestamp when the active rule or memories may change
 };
 
-/**
- * Shuffle array using Fisher-Yates algorithm
- */
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
+export type Layouts = Record<LayoutType, boolean>;
 
-type Layouts = {
-  monotych: boolean;
-  diptych: boolean;
-  triptych: boolean;
+export const DEFAULT_LAYOUTS: Layouts = {
+  monotych: true,
+  diptych: true,
+  triptych: false,
 };
 
 type QuantizedImage = {
@@ -97,11 +162,62 @@ type QuantizedImage = {
   colors: Record<string, number>;
 };
 
+export type GenerateQueueOptions = {
+  rng?: Rng;
+};
+
+const LAYOUT_ORDER: LayoutType[] = ["monotych", "diptych", "triptych"];
+
+/**
+ * Parse a device's stored layouts, filling layouts it doesn't mention from the defaults
+ */
+export function parseLayouts(layoutsJson: string | undefined): Layouts {
+  return { ...DEFAULT_LAYOUTS, ...(layoutsJson ? (JSON.parse(layoutsJson) as Partial<Layouts>) : {}) };
+}
+
+/**
+ * Check a layouts object from a request body: booleans for known layouts, leaving at least one enabled
+ */
+export function isValidLayouts(value: unknown): value is Partial<Layouts> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const known = Object.entries(value).every(([layout, enabled]) => LAYOUT_ORDER.includes(layout as LayoutType) && typeof enabled === "boolean");
+  return known && Object.values({ ...DEFAULT_LAYOUTS, ...value }).some(Boolean);
+}
+
+/**
+ * Group variants by layout, keeping one variant per blob for each layout
+ * A weight above 1 enters the variant that many times so shuffles favour it
+ */
+function groupVariantsByLayout(variants: DeviceVariant[], weightOf: (variant: DeviceVariant) => number): Map<LayoutType, DeviceVariant[]> {
+  const seen = new Set<string>();
+  const byLayout = new Map<LayoutType, DeviceVariant[]>();
+
+  for (const variant of variants) {
+    const key = `${variant.layout_type}:${variant.blob_hash}`;
+    // Panorama slices are only shown as part of their group's lockstep queue
+    if (variant.layout_type === "panorama" || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const list = byLayout.get(variant.layout_type) || [];
+    for (let i = 0; i < weightOf(variant); i++) {
+      list.push(variant);
+    }
+    byLayout.set(variant.layout_type, list);
+  }
+
+  return byLayout;
+}
+
 /**
  * Generate slideshow queue for a device with layout-aware variant selection
  */
-export async function generateSlideshowQueue(deviceId: string, queueSize = 100): Promise<SlideshowQueue> {
+export async function generateSlideshowQueue(deviceId: string, queueSize = 100, options: GenerateQueueOptions = {}): Promise<SlideshowQueue> {
   const db = getFirestore();
+  const rng = options.rng ?? Math.random;
 
   // Get device info including layouts
   const device = await getDevice(deviceId);
@@ -111,30 +227,20 @@ export async function generateSlideshowQueue(deviceId: string, queueSize = 100):
   }
 
   // Parse layouts
-  const layouts: Layouts = device.layouts
-    ? JSON.parse(device.layouts)
-    : {
-        monotych: true,
-        diptych: true,
-        triptych: false,
-      };
-  console.log(`Generating slideshow queue for device ${deviceId} with layouts:`, layouts);
-  // if (layouts.length === 0) {
-  //   console.warn(`Device ${deviceId} has no layouts defined, falling back to legacy mode`);
-  //   return generateLegacyQueue(deviceId, device, queueSize);
-  // }
+  const layouts = parseLayouts(device.layouts);
+  const strategy = getQueueStrategy(device.queue_strategy);
+  console.log(`Generating slideshow queue for device ${deviceId} with strategy ${strategy.name} and layouts:`, layouts);
 
   // Get all device_variants to find unique blob hashes
   const variantsQ = await db.collection(Collections.DEVICE_VARIANTS).where("device", "==", deviceId).get();
-  const variants = variantsQ.docs.map((doc) => doc.data()) as unknown[] as DeviceVariant[];
-
-  const variantMap = new Map<string, DeviceVariant>();
-  const variantsByLayout = new Map<string, DeviceVariant[]>();
-  for (const variant of variants) {
-    if (!variantMap.has(variant.blob_hash)) {
-      variantMap.set(variant.blob_hash, variant);
-      variantsByLayout.set(variant.layout_type, [...(variantsByLayout.get(variant.layout_type) || []), variant]);
-    }
+  let variants = variantsQ.docs.map((doc) => doc.data()) as unknown[] as DeviceVariant[];
+
+  // Restrict to the device's albums; no assignment means every image
+  if (device.albums && device.albums.length > 0) {
+    const albums = await getAlbums(device.albums);
+    const albumBlobHashes = new Set(albums.flatMap((album) => album.blob_hashes));
+    variants = variants.filter((variant) => albumBlobHashes.has(variant.blob_hash));
+    console.log(`Device ${deviceId} limited to ${albums.length} album(s) with ${albumBlobHashes.size} image(s)`);
   }
 
   const uniqueBlobHashes = [...new Set(variants.map((v) => v.blob_hash))];
@@ -154,57 +260,129 @@ export async function generateSlideshowQueue(deviceId: string, queueSize = 100):
         orientation: data.orientation,
         color_palette: data.color_palette,
         color_source: data.color_source,
+        analysis: data.analysis as AIAnalysis | undefined,
+        taken_at: data.taken_at as string | undefined,
+        taken_at_source: data.taken_at_source as Blob["taken_at_source"],
       };
     });
 
-  if (blobs.length === 0) {
-    return {
-      deviceId,
-      queue: [],
-      currentIndex: 0,
-      generatedAt: new Date().toISOString(),
-    };
-  }
-
   const blobMap = new Map<string, (typeof blobs)[0]>();
   for (const blob of blobs) {
     blobMap.set(blob.blob_hash, blob);
   }
 
-  const queue: QueueItem[] = [];
-  let i = 0;
-  while (i < queueSize) {
-    // TODO: semi-randomly select a layout available for this device
-    let layoutType: "monotych" | "diptych" | "triptych" = "monotych";
-
-    if (i > 0) {
-      layoutType = Math.random() < 0.5 ? (layouts.diptych ? "diptych" : "monotych") : "monotych";
+  // Apply the content schedule rule active at the device's local time
+  const scheduleRules: ScheduleRule[] = device.schedule_rules ? JSON.parse(device.schedule_rules) : [];
+  const now = new Date();
+  const localTime = getLocalTime(device.timezone, now);
+  const rule = findActiveRule(scheduleRules, localTime);
+  let scheduleValidUntil = getNextRuleChange(scheduleRules, localTime, now)?.toISOString();
+
+  const isAvailable = (byLayout: Map<LayoutType, DeviceVariant[]>) => (layout: LayoutType) =>
+    layouts[layout] && new Set(byLayout.get(layout)?.map((v) => v.blob_hash)).size >= LAYOUT_IMAGE_COUNTS[layout];
+
+  let pool = variants;
+  let weightOf = (_variant: DeviceVariant): number => 1;
+  let activeRule: ActiveScheduleRule | null = null;
+
+  if (rule) {
+    const matches = (variant: DeviceVariant): boolean => matchesRule(blobMap.get(variant.blob_hash)?.analysis, rule);
+
+    if (rule.mode === "restrict") {
+      const restricted = variants.filter(matches);
+      if (LAYOUT_ORDER.some(isAvailable(groupVariantsByLayout(restricted, () => 1)))) {
+        pool = restricted;
+        activeRule = { name: rule.name, mode: rule.mode };
+      } else {
+        console.warn(`Schedule rule "${rule.name}" matches too few images on device ${deviceId}, ignoring it`);
+      }
+    } else {
+      const weight = getBiasWeight(rule);
+      weightOf = (variant) => (matches(variant) ? weight : 1);
+      activeRule = { name: rule.name, mode: rule.mode };
     }
+  }
 
-    const imagesNeeded = layoutType === "monotych" ? 1 : layoutType === "diptych" ? 2 : 3;
-    
-    console.log(`Generating queue item ${i + 1}/${queueSize} for device ${deviceId} with layout ${layoutType}`, imagesNeeded);
+  // Favour images taken on this day in earlier years; too few are mixed into the normal rotation
+  let onThisDay: OnThisDaySummary | null = null;
 
-    const candidates = variantsByLayout.get(layoutType) || [];
-    if (candidates.length < imagesNeeded) {
-      console.warn(`Not enough variants for layout ${layoutType} on device ${deviceId}, needed ${imagesNeeded} but found ${candidates.length}`);
-      continue; // Not enough variants for this layout
+  if (device.queue_mode === "on_this_day") {
+    const today = getLocalDate(device.timezone, now);
+    const isMemory = (variant: DeviceVariant): boolean => {
+      const blob = blobMap.get(variant.blob_hash);
+      return isOnThisDay(blob?.taken_at, today, { source: blob?.taken_at_source, timezone: device.timezone });
+    };
+    const memories = pool.filter(isMemory);
+    const memoryCount = new Set(memories.map((variant) => variant.blob_hash)).size;
+
+    if (memoryCount >= ON_THIS_DAY_MIN_IMAGES && LAYOUT_ORDER.some(isAvailable(groupVariantsByLayout(memories, () => 1)))) {
+      pool = memories;
+      onThisDay = { date: formatMonthDay(today), images: memoryCount, mode: "only" };
+    } else if (memoryCount > 0) {
+      const baseWeight = weightOf;
+      weightOf = (variant) => baseWeight(variant) * (isMemory(variant) ? ON_THIS_DAY_BIAS_WEIGHT : 1);
+      onThisDay = { date: formatMonthDay(today), images: memoryCount, mode: "favoured" };
     }
-    const shuffledCandidates = shuffleArray(candidates);
 
-    const imagesSelected: DeviceVariant[] = [];
-    const selectedImageHashes = new Set<string>();
+    // Memories change at local midnight
+    const midnight = getNextLocalMidnight(localTime, now).toISOString();
+    scheduleValidUntil = scheduleValidUntil && scheduleValidUntil < midnight ? scheduleValidUntil : midnight;
+  }
 
-    // Select images for this layout
-    for (const candidate of shuffledCandidates) {
-      if (imagesSelected.length >= imagesNeeded) {
-        console.log(`Selected enough images for layout ${layoutType} on device ${deviceId}`);
-        break;
-      }
-      if (!selectedImageHashes.has(candidate.blob_hash)) {
-        imagesSelected.push(candidate);
-        selectedImageHashes.add(candidate.blob_hash);
-      }
+  const variantsByLayout = groupVariantsByLayout(pool, weightOf);
+
+  // Only offer layouts the device supports and that have enough distinct images
+  const availableLayouts = LAYOUT_ORDER.filter(isAvailable(variantsByLayout));
+
+  if (blobs.length === 0 || availableLayouts.length === 0) {
+    return {
+      deviceId,
+      queue: [],
+      currentIndex: 0,
+      generatedAt: new Date().toISOString(),
+      activeRule,
+      onThisDay,
+      scheduleValidUntil,
+    };
+  }
+
+  const noRepeatWindow = getNoRepeatWindow(device);
+  const repeatGuard = await createRepeatGuard(deviceId, noRepeatWindow);
+  // Slides shown before this queue, taken before generation records its own picks
+  const shownBefore = repeatGuard.recentSlides(noRepeatWindow.slides);
+
+  const context: QueueStrategyContext = {
+    layouts: availableLayouts,
+    variantsByLayout,
+    layoutWeights: device.layout_weights ? JSON.parse(device.layout_weights) : {},
+    lastShown: repeatGuard.lastShown,
+    rng,
+  };
+
+  const directionalityOf = (variant: DeviceVariant): number | undefined => blobMap.get(variant.blob_hash)?.analysis?.directionality?.score;
+  const pairingImageOf = (variant: DeviceVariant): PairingImage => {
+    const blob = blobMap.get(variant.blob_hash);
+    return {
+      width: blob?.width ?? variant.width,
+      height: blob?.height ?? variant.height,
+      palette: blob && (blob.color_palette || blob.color_source) ? paletteFromColors(blob.color_palette ? JSON.parse(blob.color_palette) : [], blob.color_source) : undefined,
+      analysis: blob?.analysis,
+    };
+  };
+
+  const generatedAt = Date.now();
+  const queue: QueueItem[] = [];
+  const itemPalettes = new Map<QueueItem, ColorPalette>();
+  for (let i = 0; i < queueSize; i++) {
+    const layoutType = strategy.pickLayout(i, context);
+    const imagesNeeded = LAYOUT_IMAGE_COUNTS[layoutType];
+    const candidates = repeatGuard.filter(context.variantsByLayout.get(layoutType) || [], imagesNeeded);
+    // Single images take the strategy's pick. For multi-image slides the strategy ranks every candidate:
+    // its first pick anchors the slide and partners are chosen by pairing compatibility, ties going to its order
+    const strategyContext = { ...context, variantsByLayout: new Map([[layoutType, candidates]]) };
+    let imagesSelected = strategy.pickImages(layoutType, imagesNeeded > 1 ? candidates.length : imagesNeeded, strategyContext);
+    if (imagesNeeded > 1 && imagesSelected.length > 0) {
+      imagesSelected = buildScoredGroup(imagesSelected[0], imagesSelected, imagesNeeded, { imageOf: pairingImageOf, directionalityOf, rng });
     }
 
     if (imagesSelected.length < imagesNeeded) {
@@ -212,11 +390,21 @@ export async function generateSlideshowQueue(deviceId: string, queueSize = 100):
       continue; // Could not select enough unique images
     }
 
+    // Order multi-image slides so subjects face the centre
+    let directionality: DirectionalityArrangement | undefined = undefined;
+    if (imagesSelected.length > 1) {
+      const arranged = arrangeByDirectionality(imagesSelected, directionalityOf);
+      imagesSelected = arranged.images;
+      directionality = arranged.arrangement;
+    }
+
     let sourceColor: string | undefined = undefined;
+    let palette: ColorPalette | undefined = undefined;
     if (imagesSelected.length === 1) {
       const blob = blobMap.get(imagesSelected[0].blob_hash);
       if (blob) {
         sourceColor = blob.color_source;
+        palette = blob.color_palette || blob.color_source ? paletteFromColors(blob.color_palette ? JSON.parse(blob.color_palette) : [], blob.color_source) : undefined;
       }
     } else {
       const imageQuants = await Promise.all(imagesSelected.map((img) => fetchFile<QuantizedImage>(`images/quantized/${img.blob_hash}.json`)));
@@ -236,35 +424,47 @@ export async function generateSlideshowQueue(deviceId: string, queueSize = 100):
         fallbackColorARGB: 0xff4285f4,
       });
       sourceColor = hexFromArgb(rankedColors[0]);
+      palette = paletteFromColors(rankedColors.map((argb) => hexFromArgb(argb)), sourceColor);
     }
 
     // Add selected images to queue
-    queue.push({
+    const item: QueueItem = {
       layoutType,
       images: imagesSelected.map((img) => {
         return {
           url: img.storage_path.replace(/^gs:\/\//, "https://storage.googleapis.com/"),
+          blob_hash: img.blob_hash,
           source_color: sourceColor,
           // color_palette: img.color_palette,
-          // blob_hash: img.blob_hash,
         };
       }),
-    });
+      source_color: sourceColor,
+      directionality,
+    };
+    queue.push(item);
+    if (palette) {
+      itemPalettes.set(item, palette);
+    }
 
-    i++;
+    // Later picks in this queue see these images as just shown
+    repeatGuard.record(imagesSelected.map((img) => img.blob_hash), generatedAt + i);
   }
 
   const output = {
     deviceId,
-    queue,
+    // Reordering must keep the no-repeat window the strategy's picks were made under
+    queue: orderByColorFlow(queue, (item) => itemPalettes.get(item), device.color_flow ?? 0, rng, {
+      keysOf: (item) => item.images.flatMap((image) => (image.blob_hash ? [image.blob_hash] : [])),
+      slides: noRepeatWindow.slides,
+      recent: shownBefore,
+    }),
     currentIndex: 0,
-    generatedAt: new Date().toISOString(),
+    generatedAt: new Date(generatedAt).toISOString(),
+    activeRule,
+    onThisDay,
+    scheduleValidUntil,
   };
 
-  saveQueueState(output).catch((err) => {
-    console.error(`Failed to save generated queue for device ${deviceId}: ${err.message}`);
-  });
-
   return output;
 }
 
@@ -285,50 +485,156 @@ async function generateLegacyQueue(deviceId: string, device: { width: number; he
 }
 
 /**
- * Save queue state to database
+ * Save a queue as the device's current queue, with the cursor at its currentIndex
  */
 export async function saveQueueState(queue: SlideshowQueue): Promise<void> {
-  await updateDeviceQueueState(queue.deviceId, JSON.stringify(queue), queue.currentIndex);
+  await replaceDeviceQueue(queue.deviceId, toStoredQueue(queue));
+}
+
+/**
+ * Save a themed group's member queues together under one queue ID
+ * With `expected`, only saves when that member's cursor still points at the given queue;
+ * returns false when another member regenerated the group first
+ */
+export async function saveGroupQueueStates(queues: SlideshowQueue[], expected?: { deviceId: string; queueId: string | null }): Promise<boolean> {
+  const queueId = crypto.randomUUID();
+  return replaceDeviceQueues(
+    queues.map((queue) => ({ deviceId: queue.deviceId, queue: { ...toStoredQueue(queue), queueId } })),
+    expected
+  );
+}
+
+function toStoredQueue(queue: SlideshowQueue): { queueId: string; queueData: string; length: number; position: number; validUntil?: string } {
+  return {
+    queueId: crypto.randomUUID(),
+    queueData: JSON.stringify({ ...queue, currentIndex: 0 }),
+    length: queue.queue.length,
+    position: queue.currentIndex,
+    validUntil: queue.scheduleValidUntil,
+  };
 }
 
 /**
  * Load queue state from database
  */
 export async function loadQueueState(deviceId: string): Promise<SlideshowQueue | null> {
-  const state = await getDeviceQueueState(deviceId);
+  const [state, cursor] = await Promise.all([getDeviceQueueState(deviceId), getDeviceQueueCursor(deviceId)]);
 
-  if (!state) return null;
+  if (!state || !cursor || state.queue_id !== cursor.queue_id) return null;
 
   const queue = JSON.parse(state.queue_data) as SlideshowQueue;
-  queue.currentIndex = state.current_index;
+  queue.currentIndex = cursor.position;
 
   return queue;
 }
 
 /**
- * Get next image in queue (with rotation)
+ * Hand out the next `count` items from a device's queue
+ * The cursor advances in a transaction, so concurrent requests never receive the same item;
+ * when the queue runs out or expires it is regenerated at most once per call
+ * A pinned device keeps getting the pinned item until it is released
+ * Lockstep group members get the group's current slide instead; themed group members regenerate the whole group,
+ * unless another member already replaced the exhausted queue
+ * Nothing is handed out during the device's quiet hours
  */
-export async function getNextImage(deviceId: string): Promise<QueueItem | null> {
-  let queue = await loadQueueState(deviceId);
+export async function takeNextItems(deviceId: string, count: number): Promise<QueueItem[]> {
+  const device = await getDevice(deviceId);
+
+  // The screen is off, so hold the cursor; the morning starts where the evening left off
+  if (device && isQuietTime(device)) {
+    return [];
+  }
+
+  const group = device?.group_id ? await getDeviceGroup(device.group_id) : undefined;
+
+  if (group?.mode === "lockstep") {
+    const slide = await getLockstepSlide(group, deviceId, count);
+    const items = slide?.items ?? [];
+    if (items.length > 0) {
+      recordDisplayedItems(deviceId, items).catch((err) => {
+        console.error(`Failed to record display history for device ${deviceId}: ${err.message}`);
+      });
+    }
+    return items;
+  }
+
+  const items: QueueItem[] = [];
+  let regenerated = false;
+
+  while (items.length < count) {
+    const claim = await advanceDeviceQueueCursor(deviceId, count - items.length);
+
+    if (claim.end > claim.start) {
+      const queue = JSON.parse(claim.queueData!) as SlideshowQueue;
+      items.push(...queue.queue.slice(claim.start, claim.end));
+      // A pinned device gets its pinned item once per call
+      if (claim.pinned) {
+        break;
+      }
+      continue;
+    }
 
-  // Generate new queue if none exists
-  if (!queue) {
-    queue = await generateSlideshowQueue(deviceId);
-    await saveQueueState(queue);
+    if (regenerated) {
+      break;
+    }
+    regenerated = true;
+
+    if (group) {
+      // Keep members on matching slides by regenerating every member's queue together;
+      // if another member regenerated first, this one's cursor has already moved to the new queue
+      await regenerateGroupQueue(group, undefined, undefined, claim.queueId ?? null, deviceId);
+      continue;
+    }
+
+    // Queue is missing, exhausted or expired; if another request replaces it first, use theirs
+    const queue = await generateSlideshowQueue(deviceId);
+    if (queue.queue.length === 0) {
+      break;
+    }
+    await replaceDeviceQueue(deviceId, toStoredQueue(queue), claim.queueId ?? null);
   }
 
-  // Check if we need to regenerate (reached end)
-  if (queue.currentIndex >= queue.queue.length) {
-    queue = await generateSlideshowQueue(deviceId);
-    queue.currentIndex = 0;
-    await saveQueueState(queue);
+  if (items.length > 0) {
+    recordDisplayedItems(deviceId, items).catch((err) => {
+      console.error(`Failed to record display history for device ${deviceId}: ${err.message}`);
+    });
   }
 
-  const item = queue.queue[queue.currentIndex];
+  return items;
+}
 
-  // Update index for next call
-  queue.currentIndex++;
-  await saveQueueState(queue);
+/**
+ * The items the next takeNextItems call would hand out, without advancing the cursor
+ * Returns fewer, or none, when the queue is about to run out or expire, as the items after that don't exist yet
+ */
+export async function peekNextItems(deviceId: string, count: number): Promise<QueueItem[]> {
+  const device = await getDevice(deviceId);
+  const group = device?.group_id ? await getDeviceGroup(device.group_id) : undefined;
+
+  if (group?.mode === "lockstep") {
+    return (await getLockstepSlide(group, deviceId, count))?.items ?? [];
+  }
+
+  const [state, cursor] = await Promise.all([getDeviceQueueState(deviceId), getDeviceQueueCursor(deviceId)]);
+  if (!state || !cursor || state.queue_id !== cursor.queue_id) {
+    return [];
+  }
+
+  const queue = JSON.parse(state.queue_data) as SlideshowQueue;
+  if (cursor.pinned_position !== undefined) {
+    return queue.queue.slice(cursor.pinned_position, cursor.pinned_position + 1);
+  }
+  if (cursor.valid_until !== undefined && cursor.valid_until <= new Date().toISOString()) {
+    return [];
+  }
+
+  return queue.queue.slice(cursor.position, Math.min(cursor.position + count, cursor.length));
+}
 
-  return item;
+/**
+ * Get next image in queue (with rotation)
+ */
+export async function getNextImage(deviceId: string): Promise<QueueItem | null> {
+  const [item] = await takeNextItems(deviceId, 1);
+  return item ?? null;
 }
@@ -5,6 +5,7 @@
 
 import { Storage } from "@google-cloud/storage";
 import type { UploadOptions } from "@google-cloud/storage";
+import { Buffer } from "node:buffer";
 import { Readable } from "node:stream";
 
 let storage: Storage | null = null;
@@ -66,6 +67,32 @@ export async function uploadFile(localPath: string, gcsPath: string, contentType
   }
 }
 
+/**
+ * Write a buffer to Google Cloud Storage
+ */
+export async function writeFile(gcsPath: string, contents: Uint8Array, contentType: string): Promise<string> {
+  if (!isGCSEnabled() || !storage || !bucketName) {
+    throw new Error("Google Cloud Storage not initialized");
+  }
+
+  try {
+    const bucket = storage.bucket(bucketName);
+    const file = bucket.file(gcsPath);
+
+    await file.save(contents, {
+      metadata: {
+        contentType,
+        cacheControl: "public, max-age=31536000",
+      },
+    });
+
+    return `gs://${bucketName}/${gcsPath}`;
+  } catch (error) {
+    console.error(`Failed to write ${gcsPath} to GCS:`, error);
+    throw error;
+  }
+}
+
 /**
  * Download a file from Google Cloud Storage to local temp file
  */
@@ -148,10 +175,10 @@ export async function readFile(gcsPath: string): Promise<Uint8Array> {
 }
 
 /**
- * Create a read stream for a file in GCS (for streaming responses)
+ * Create a read stream for a file in GCS (for streaming responses), optionally of an inclusive byte range
  * Returns a Web ReadableStream compatible with Deno/Web APIs
  */
-export function createReadStream(gcsPath: string): ReadableStream<Uint8Array> {
+export function createReadStream(gcsPath: string, range?: { start: number; end: number }): ReadableStream<Uint8Array> {
   if (!isGCSEnabled() || !storage || !bucketName) {
     throw new Error("Google Cloud Storage not initialized");
   }
@@ -160,7 +187,7 @@ export function createReadStream(gcsPath: string): ReadableStream<Uint8Array> {
   const file = bucket.file(gcsPath);
 
   // Create Node.js ReadableStream from GCS
-  const nodeStream = file.createReadStream();
+  const nodeStream = file.createReadStream(range ? { start: range.start, end: range.end } : undefined);
 
   return Readable.toWeb(nodeStream) as ReadableStream<Uint8Array>;
 
@@ -186,6 +213,30 @@ export function createReadStream(gcsPath: string): ReadableStream<Uint8Array> {
   // });
 }
 
+/**
+ * Size and MD5 (hex) of a file in GCS
+ */
+export async function getFileMetadata(gcsPath: string): Promise<{ size: number; md5: string; contentType?: string }> {
+  if (!isGCSEnabled() || !storage || !bucketName) {
+    throw new Error("Google Cloud Storage not initialized");
+  }
+
+  try {
+    const bucket = storage.bucket(bucketName);
+    const file = bucket.file(gcsPath);
+    const [metadata] = await file.getMetadata();
+
+    return {
+      size: Number(metadata.size),
+      md5: Buffer.from(metadata.md5Hash ?? "", "base64").toString("hex"),
+      contentType: metadata.contentType,
+    };
+  } catch (error) {
+    console.error(`Failed to get metadata for ${gcsPath}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Check if a file exists in GCS
  */
@@ -242,6 +293,17 @@ export function parseGCSUri(uri: string): { bucket: string; path: string } | nul
   return { bucket: match[1], path: match[2] };
 }
 
+/**
+ * Object path in the bucket for a public or gs:// URL, as queue items and variants store them
+ */
+export function storagePathFromUrl(url: string): string {
+  const match = url.match(/^(?:https:\/\/storage\.googleapis\.com\/|gs:\/\/)[^/]+\/(.+)$/);
+  if (!match) {
+    throw new Error(`Not a storage URL: ${url}`);
+  }
+  return match[1];
+}
+
 /**
  * Convert local file path to GCS path
  */
@@ -0,0 +1,231 @@
+/**
+ * Variant backfill service
+ * Plans and tracks jobs that generate the variants a device is missing after it is added or resized,
+ * and the panorama slices a group is missing after its arrangement changes
+ */
+
+import { Buffer } from "node:buffer";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import {
+  createBackfillJob,
+  deleteDeviceVariants,
+  getAllDevices,
+  getBackfillJob,
+  getDevice,
+  getDeviceGroup,
+  getPanoramaVariantsForGroup,
+  getVariantsForDevice,
+  listBlobs,
+  updateBackfillJob,
+} from "../db/helpers-firestore.ts";
+import type { BackfillJob, Device, LayoutType } from "../db/types.ts";
+import { getDitherProfile } from "./eink.ts";
+import { calculateCropPercentage, calculateLayoutSlotSize, MAX_CROP_PERCENTAGE } from "./image-layout.ts";
+import { runBackfillJob } from "./jobs.ts";
+import { buildSpanArrangement, isSpanEligible, type SpanArrangement } from "./panorama.ts";
+import { parseLayouts } from "./slideshow-queue.ts";
+
+export type BackfillItem = {
+  blob_hash: string;
+  storage_path: string; // Original under images/originals/
+  width: number;
+  height: number;
+  layouts: LayoutType[]; // Layouts this blob is missing a variant for
+};
+
+export type BackfillPlan = {
+  device: Device;
+  items: BackfillItem[];
+  staleVariantIds: string[];
+};
+
+export type PanoramaBackfillPlan = {
+  span: SpanArrangement | null; // Null when the group can no longer span panoramas
+  items: Omit<BackfillItem, "layouts">[];
+  staleVariantIds: string[];
+};
+
+/**
+ * Work out which variants a device is missing and which no longer match it
+ * Layouts an image can't fill without cropping more than the processor allows are not counted as missing
+ */
+export async function planBackfill(deviceId: string): Promise<BackfillPlan> {
+  const device = await getDevice(deviceId);
+  if (!device) {
+    throw new Error(`Device not found: ${deviceId}`);
+  }
+
+  const layouts = parseLayouts(device.layouts);
+  const slots = new Map<LayoutType, { width: number; height: number }>();
+  for (const layout of Object.keys(layouts) as LayoutType[]) {
+    if (layouts[layout]) {
+      slots.set(layout, calculateLayoutSlotSize(device.width, device.height, device.gap || 0, layout));
+    }
+  }
+
+  const profileKey = getDitherProfile(device.capabilities)?.key;
+  const [variants, blobs] = await Promise.all([getVariantsForDevice(deviceId), listBlobs()]);
+
+  const staleVariantIds: string[] = [];
+  const present = new Set<string>();
+  for (const variant of variants) {
+    // Panorama slices belong to the group's arrangement and are planned with it
+    if (variant.layout_type === "panorama") {
+      continue;
+    }
+    const slot = slots.get(variant.layout_type);
+    // Variants dithered for another e-ink profile, or JPEGs on a device that now dithers, are replaced too
+    if (!slot || slot.width !== variant.width || slot.height !== variant.height || variant.profile !== profileKey) {
+      staleVariantIds.push(variant.id);
+    } else {
+      present.add(`${variant.layout_type}:${variant.blob_hash}`);
+    }
+  }
+
+  const items: BackfillItem[] = [];
+  for (const blob of blobs) {
+    const missing = [...slots.entries()]
+      .filter(([layout, slot]) => !present.has(`${layout}:${blob.hash}`) && calculateCropPercentage(blob.width, blob.height, slot.width, slot.height) <= MAX_CROP_PERCENTAGE)
+      .map(([layout]) => layout);
+
+    if (missing.length > 0) {
+      items.push({
+        blob_hash: blob.hash,
+        storage_path: blob.storage_path,
+        width: blob.width,
+        height: blob.height,
+        layouts: missing,
+      });
+    }
+  }
+
+  return { device, items, staleVariantIds };
+}
+
+/**
+ * Work out which images a group is missing panorama slices for and which slices no longer fit
+ * A slice is stale when its device left the arrangement or changed resolution; `replaceAll` drops every slice,
+ * for when the placements themselves moved
+ */
+export async function planPanoramaBackfill(groupId: string, replaceAll = false): Promise<PanoramaBackfillPlan> {
+  const group = await getDeviceGroup(groupId);
+  if (!group) {
+    throw new Error(`Device group not found: ${groupId}`);
+  }
+
+  const [devices, variants, blobs] = await Promise.all([getAllDevices(), getPanoramaVariantsForGroup(groupId), listBlobs()]);
+  const span = buildSpanArrangement(group, new Map(devices.map((device) => [device.id, device])));
+  const panels = new Map(span?.panels.map((panel) => [panel.device_id, panel]));
+
+  const staleVariantIds: string[] = [];
+  const slicesByBlob = new Map<string, number>();
+  for (const variant of variants) {
+    const panel = panels.get(variant.device);
+    if (replaceAll || !panel || panel.width !== variant.width || panel.height !== variant.height) {
+      staleVariantIds.push(variant.id);
+    } else {
+      slicesByBlob.set(variant.blob_hash, (slicesByBlob.get(variant.blob_hash) ?? 0) + 1);
+    }
+  }
+
+  // An image counts as done only when every panel has its slice
+  const items = span
+    ? blobs
+        .filter((blob) => (slicesByBlob.get(blob.hash) ?? 0) < span.panels.length && isSpanEligible(blob.width, blob.height, span))
+        .map((blob) => ({ blob_hash: blob.hash, storage_path: blob.storage_path, width: blob.width, height: blob.height }))
+    : [];
+
+  return { span, items, staleVariantIds };
+}
+
+// Job records keep this hash, never the secret itself
+function hashJobSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+/**
+ * Check the bearer token a backfill job's container sends against the secret it was started with
+ */
+export async function verifyBackfillJobToken(jobId: string, token: string): Promise<boolean> {
+  const job = await getBackfillJob(jobId);
+  if (!job?.secret_hash) {
+    return false;
+  }
+  const expected = Buffer.from(job.secret_hash);
+  const actual = Buffer.from(hashJobSecret(token));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Record a backfill job and start it, or complete it straight away when there is nothing to generate
+ */
+async function launchBackfillJob(job: Pick<BackfillJob, "device_id" | "group_id" | "total" | "variants_removed">): Promise<BackfillJob> {
+  // Only the job's container gets the secret; the record keeps a hash
+  const secret = randomBytes(32).toString("hex");
+  const record = await createBackfillJob({
+    ...job,
+    secret_hash: hashJobSecret(secret),
+    status: job.total > 0 ? "queued" : "completed",
+    processed: 0,
+    failed: 0,
+    variants_created: 0,
+    finished_at: job.total > 0 ? undefined : new Date().toISOString(),
+  });
+
+  if (job.total > 0) {
+    try {
+      await runBackfillJob(record.id, secret);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await updateBackfillJob(record.id, { status: "failed", error_message: message, finished_at: new Date().toISOString() });
+      return { ...record, status: "failed", error_message: message };
+    }
+  }
+
+  return record;
+}
+
+/**
+ * Remove stale variants for a device and start a job for the missing ones
+ * Completes straight away when nothing is missing
+ */
+export async function startBackfill(deviceId: string): Promise<BackfillJob> {
+  const plan = await planBackfill(deviceId);
+
+  await deleteDeviceVariants(plan.staleVariantIds);
+
+  console.log(`[Backfill] Device ${deviceId}: ${plan.items.length} image(s) missing variants, ${plan.staleVariantIds.length} stale variant(s) removed`);
+
+  const job = await launchBackfillJob({
+    device_id: deviceId,
+    total: plan.items.length,
+    variants_removed: plan.staleVariantIds.length,
+  });
+
+  // A resized member needs new panorama slices too
+  const group = plan.device.group_id ? await getDeviceGroup(plan.device.group_id) : undefined;
+  if (group?.arrangement) {
+    startPanoramaBackfill(group.id).catch((error) => {
+      console.error(`[Backfill] Failed to start panorama backfill for group ${group.id}:`, error);
+    });
+  }
+
+  return job;
+}
+
+/**
+ * Remove stale panorama slices for a group and start a job for the missing ones
+ */
+export async function startPanoramaBackfill(groupId: string, options: { replaceAll?: boolean } = {}): Promise<BackfillJob> {
+  const plan = await planPanoramaBackfill(groupId, options.replaceAll);
+
+  await deleteDeviceVariants(plan.staleVariantIds);
+
+  console.log(`[Backfill] Group ${groupId}: ${plan.items.length} image(s) missing panorama slices, ${plan.staleVariantIds.length} stale slice(s) removed`);
+
+  return launchBackfillJob({
+    group_id: groupId,
+    total: plan.items.length,
+    variants_removed: plan.staleVariantIds.length,
+  });
+}
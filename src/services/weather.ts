@@ -0,0 +1,103 @@
+/**
+ * Weather providers for overlays
+ * A provider reports current conditions for a location; WEATHER_PROVIDER picks one, and the fixture
+ * stands in where there is no network or for development
+ */
+
+export type WeatherProviderName = "open-meteo" | "fixture";
+
+export type WeatherReport = {
+  temperature_c: number;
+  condition: string; // Short description, e.g. "Light rain"
+};
+
+export type WeatherProvider = {
+  readonly name: WeatherProviderName;
+  getCurrent(latitude: number, longitude: number): Promise<WeatherReport>;
+};
+
+export const DEFAULT_WEATHER_PROVIDER: WeatherProviderName = "open-meteo";
+
+// Conditions change slowly; every frame of every device shouldn't cost a request
+const CACHE_MINUTES = 15;
+
+// WMO weather interpretation codes, as Open-Meteo reports them; each entry covers codes up to its own
+const WMO_CONDITIONS: Array<[number, string]> = [
+  [0, "Clear"],
+  [1, "Mostly clear"],
+  [2, "Partly cloudy"],
+  [3, "Cloudy"],
+  [48, "Fog"],
+  [57, "Drizzle"],
+  [67, "Rain"],
+  [77, "Snow"],
+  [82, "Showers"],
+  [86, "Snow showers"],
+  [99, "Thunderstorm"],
+];
+
+const openMeteo: WeatherProvider = {
+  name: "open-meteo",
+  async getCurrent(latitude, longitude) {
+    const response = await fetch(`https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,weather_code`);
+    if (!response.ok) {
+      throw new Error(`Open-Meteo request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const { current } = (await response.json()) as { current: { temperature_2m: number; weather_code: number } };
+    return {
+      temperature_c: current.temperature_2m,
+      condition: WMO_CONDITIONS.find(([code]) => current.weather_code <= code)?.[1] ?? "Unknown",
+    };
+  },
+};
+
+const fixture: WeatherProvider = {
+  name: "fixture",
+  async getCurrent() {
+    return { temperature_c: 18, condition: "Partly cloudy" };
+  },
+};
+
+const providers: Record<WeatherProviderName, WeatherProvider> = {
+  "open-meteo": openMeteo,
+  fixture,
+};
+
+const cache = new Map<string, { report: WeatherReport; expires: number }>();
+
+/**
+ * Resolve a provider by name, falling back to the default for unknown names
+ */
+export function getWeatherProvider(name: string | undefined = process.env.WEATHER_PROVIDER): WeatherProvider {
+  if (!name) {
+    return providers[DEFAULT_WEATHER_PROVIDER];
+  }
+  if (!Object.hasOwn(providers, name)) {
+    console.warn(`Unknown weather provider "${name}", using ${DEFAULT_WEATHER_PROVIDER}`);
+    return providers[DEFAULT_WEATHER_PROVIDER];
+  }
+  return providers[name as WeatherProviderName];
+}
+
+/**
+ * Current weather at a location from the configured provider
+ * Undefined when the provider fails, so an overlay can leave the widget out rather than fail the frame
+ */
+export async function getCurrentWeather(latitude: number, longitude: number, provider: WeatherProvider = getWeatherProvider()): Promise<WeatherReport | undefined> {
+  // Rounded to about a kilometre so nearby devices share a lookup
+  const key = `${provider.name}:${latitude.toFixed(2)}:${longitude.toFixed(2)}`;
+  const cached = cache.get(key);
+  if (cached && cached.expires > Date.now()) {
+    return cached.report;
+  }
+
+  try {
+    const report = await provider.getCurrent(latitude, longitude);
+    cache.set(key, { report, expires: Date.now() + CACHE_MINUTES * 60 * 1000 });
+    return report;
+  } catch (error) {
+    console.error(`Failed to get weather from ${provider.name}:`, error);
+    return undefined;
+  }
+}
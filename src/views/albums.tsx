@@ -0,0 +1,160 @@
+import type { FC } from "hono/jsx";
+import { Layout } from "./layout.tsx";
+
+type Album = {
+  id: string;
+  name: string;
+  description?: string;
+  blob_hashes: string[];
+  devices: string[];
+}
+
+type AlbumsProps = {
+  albums: Album[];
+  error?: string;
+}
+
+export const Albums: FC<AlbumsProps> = ({ albums, error }) => {
+  return (
+    <Layout title="Albums">
+      {error && (
+        <div style="background-color: #fee; border: 1px solid #f88; border-radius: 4px; padding: 1rem; margin-bottom: 1rem; color: #c33;">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+      <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 1.5rem;">
+        <h1>Albums</h1>
+      </div>
+
+      <div class="card">
+        <h2 style="margin-bottom: 1rem;">New Album</h2>
+        <form id="album-form" style="display: flex; gap: 0.75rem; flex-wrap: wrap;">
+          <input type="text" id="album-name" required placeholder="e.g., Family" style="flex: 1 1 200px; padding: 0.5rem;" />
+          <input type="text" id="album-description" placeholder="Description (optional)" style="flex: 2 1 300px; padding: 0.5rem;" />
+          <button type="submit" class="button button-primary">+ Create Album</button>
+        </form>
+      </div>
+
+      {albums.length === 0 ? (
+        <div class="card empty-state">
+          <p>No albums yet.</p>
+          <p style="margin-top: 1rem;">Devices without albums show every image.</p>
+        </div>
+      ) : (
+        albums.map((album) => (
+          <div class="card">
+            <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 1rem;">
+              <h2>
+                {album.name}
+                <span style="color: #7f8c8d; font-size: 0.9rem; font-weight: normal; margin-left: 1rem;">
+                  {album.blob_hashes.length} image(s)
+                </span>
+              </h2>
+              <button class="button" style="background-color: #ef4444; color: white;" onclick={`deleteAlbum('${album.id}', ${JSON.stringify(album.name)})`}>
+                Delete
+              </button>
+            </div>
+            {album.description && <p style="margin-bottom: 1rem; color: #7f8c8d;">{album.description}</p>}
+            <p style="margin-bottom: 1rem;">
+              Devices:{" "}
+              {album.devices.length > 0 ? album.devices.map((device) => <code style="margin-right: 0.5rem;">{device}</code>) : <span style="color: #999;">none</span>}
+            </p>
+
+            <div style="display: flex; gap: 0.5rem; flex-wrap: wrap; margin-bottom: 1rem;">
+              {album.blob_hashes.map((hash) => (
+                <div style="position: relative;">
+                  <a href={`/images/${hash}`} title={hash}>
+                    <img src={`/thumbnails/${hash}`} style="width: 80px; height: 80px; object-fit: cover; border-radius: 4px;" />
+                  </a>
+                  <button
+                    style="position: absolute; top: 2px; right: 2px; padding: 0 0.4rem; background-color: #ef4444; color: white; border: none; border-radius: 4px; cursor: pointer;"
+                    title="Remove from album"
+                    onclick={`removeFromAlbum('${album.id}', '${hash}')`}
+                  >
+                    &times;
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <form class="add-images-form" data-album-id={album.id} style="display: flex; gap: 0.75rem;">
+              <textarea placeholder="Image hashes, one per line" rows={2} style="flex: 1; padding: 0.5rem; font-family: monospace;"></textarea>
+              <button type="submit" class="button button-secondary">Add Images</button>
+            </form>
+          </div>
+        ))
+      )}
+
+      <script dangerouslySetInnerHTML={{ __html: `
+        async function request(url, options) {
+          const response = await fetch(url, options);
+          if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.error || 'Request failed');
+          }
+          return response.json();
+        }
+
+        document.getElementById('album-form').addEventListener('submit', async (e) => {
+          e.preventDefault();
+          const name = document.getElementById('album-name').value;
+          const description = document.getElementById('album-description').value;
+
+          try {
+            await request('/api/admin/albums', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ name, description })
+            });
+            window.location.reload();
+          } catch (error) {
+            alert('Error creating album: ' + error.message);
+          }
+        });
+
+        document.querySelectorAll('.add-images-form').forEach((form) => {
+          form.addEventListener('submit', async (e) => {
+            e.preventDefault();
+            const blob_hashes = form.querySelector('textarea').value.split(/\\s+/).filter(Boolean);
+            if (blob_hashes.length === 0) {
+              return;
+            }
+
+            try {
+              await request(\`/api/admin/albums/\${form.dataset.albumId}/images\`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ blob_hashes })
+              });
+              window.location.reload();
+            } catch (error) {
+              alert('Error adding images: ' + error.message);
+            }
+          });
+        });
+
+        async function removeFromAlbum(albumId, hash) {
+          try {
+            await request(\`/api/admin/albums/\${albumId}/images/\${hash}\`, { method: 'DELETE' });
+            window.location.reload();
+          } catch (error) {
+            alert('Error removing image: ' + error.message);
+          }
+        }
+
+        async function deleteAlbum(id, name) {
+          if (!confirm(\`Delete album "\${name}"? Devices using it will no longer be limited by it.\`)) {
+            return;
+          }
+
+          try {
+            await request(\`/api/admin/albums/\${id}\`, { method: 'DELETE' });
+            window.location.reload();
+          } catch (error) {
+            alert('Error deleting album: ' + error.message);
+          }
+        }
+      ` }} />
+    </Layout>
+  );
+};
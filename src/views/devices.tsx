@@ -1,4 +1,6 @@
 import type { FC } from "hono/jsx";
+import type { CredentialStatus } from "../services/device-credentials.ts";
+import type { DeviceStatus } from "../services/device-health.ts";
 import { Layout } from "./layout.tsx";
 
 type Device = {
@@ -9,14 +11,36 @@ type Device = {
   orientation: string;
   created_at: string;
   last_seen: string | null;
+  status: DeviceStatus;
+  telemetry: {
+    version: string | null;
+    battery: number | null;
+    wifi_rssi: number | null;
+    last_error: string | null;
+    restarted: boolean;
+  } | null;
+  albums: string[];
+  layouts: {
+    monotych: boolean;
+    diptych: boolean;
+    triptych: boolean;
+  };
+  credential: CredentialStatus;
+  token_issued_at: string | null;
+}
+
+type AlbumOption = {
+  id: string;
+  name: string;
 }
 
 type DevicesProps = {
   devices: Device[];
+  albums: AlbumOption[];
   error?: string;
 }
 
-export const Devices: FC<DevicesProps> = ({ devices, error }) => {
+export const Devices: FC<DevicesProps> = ({ devices, albums, error }) => {
   return (
     <Layout title="Devices">
       {error && (
@@ -65,6 +89,24 @@ export const Devices: FC<DevicesProps> = ({ devices, error }) => {
                 <option value="portrait">Portrait</option>
               </select>
             </div>
+            <div class="form-group">
+              <label>Layouts</label>
+              <div style="display: flex; gap: 1rem;">
+                <label><input type="checkbox" id="device-layout-monotych" checked /> Monotych</label>
+                <label><input type="checkbox" id="device-layout-diptych" checked /> Diptych</label>
+                <label><input type="checkbox" id="device-layout-triptych" /> Triptych</label>
+              </div>
+              <small>Slides with one, two or three images side by side</small>
+            </div>
+            <div class="form-group">
+              <label for="device-albums">Albums</label>
+              <select id="device-albums" multiple size={Math.min(Math.max(albums.length, 2), 6)}>
+                {albums.map((album) => (
+                  <option value={album.id}>{album.name}</option>
+                ))}
+              </select>
+              <small>Leave empty to show every image</small>
+            </div>
             <div class="modal-actions">
               <button type="button" class="btn btn-secondary" onclick="closeDeviceModal()">Cancel</button>
               <button type="submit" class="btn btn-primary" id="save-device-btn">Save Device</button>
@@ -87,7 +129,9 @@ export const Devices: FC<DevicesProps> = ({ devices, error }) => {
                 <th>ID</th>
                 <th>Resolution</th>
                 <th>Orientation</th>
+                <th>Status</th>
                 <th>Last Seen</th>
+                <th>Token</th>
                 <th>Actions</th>
               </tr>
             </thead>
@@ -102,18 +146,72 @@ export const Devices: FC<DevicesProps> = ({ devices, error }) => {
                       {device.orientation}
                     </span>
                   </td>
+                  <td>
+                    <span class={`badge badge-${device.status}`} title={device.telemetry?.last_error ? `Last error: ${device.telemetry.last_error}` : undefined}>
+                      {device.status === "never" ? "never seen" : device.status}
+                    </span>
+                    {device.telemetry && (
+                      <div class="device-info">
+                        {[
+                          device.telemetry.version && `v${device.telemetry.version}`,
+                          device.telemetry.battery !== null && `${device.telemetry.battery}% battery`,
+                          device.telemetry.wifi_rssi !== null && `${device.telemetry.wifi_rssi} dBm`,
+                          device.telemetry.restarted && "restarted",
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    )}
+                  </td>
                   <td class="device-info">
                     {device.last_seen 
                       ? new Date(device.last_seen).toLocaleString()
                       : "Never"}
                   </td>
+                  <td class="device-info">
+                    {device.credential === "active"
+                      ? `Issued ${device.token_issued_at ? new Date(device.token_issued_at).toLocaleDateString() : ""}`
+                      : device.credential === "revoked"
+                        ? "Revoked"
+                        : "Not issued"}
+                  </td>
                   <td>
                     <button 
                       class="btn btn-sm btn-secondary" 
-                      onclick={`editDevice('${device.id}', '${device.name}', ${device.width}, ${device.height}, '${device.orientation}')`}
+                      onclick={`editDevice('${device.id}', '${device.name}', ${device.width}, ${device.height}, '${device.orientation}', ${JSON.stringify(device.albums)}, ${JSON.stringify(device.layouts)})`}
                     >
                       Edit
                     </button>
+                    <button 
+                      class="btn btn-sm btn-secondary" 
+                      onclick={`rotateDeviceToken('${device.id}', '${device.name}')`}
+                      style="margin-left: 0.5rem;"
+                    >
+                      {device.credential === "active" ? "Rotate Token" : "Issue Token"}
+                    </button>
+                    {device.credential === "active" && (
+                      <button 
+                        class="btn btn-sm btn-danger" 
+                        onclick={`revokeDeviceToken('${device.id}', '${device.name}')`}
+                        style="margin-left: 0.5rem;"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                    <select
+                      class="btn btn-sm btn-secondary"
+                      onchange={`sendDeviceCommand('${device.id}', '${device.name}', this)`}
+                      style="margin-left: 0.5rem;"
+                    >
+                      <option value="">Remote…</option>
+                      <option value="skip">Skip</option>
+                      <option value="previous">Previous</option>
+                      <option value="pause">Pause</option>
+                      <option value="resume">Resume</option>
+                      <option value="pin">Pin current image</option>
+                      <option value="unpin">Unpin</option>
+                      <option value="refresh">Refresh queue</option>
+                    </select>
                     <button 
                       class="btn btn-sm btn-danger" 
                       onclick={`deleteDevice('${device.id}', '${device.name}')`}
@@ -145,7 +243,19 @@ export const Devices: FC<DevicesProps> = ({ devices, error }) => {
           document.getElementById('device-modal').style.display = 'none';
         }
 
-        function editDevice(id, name, width, height, orientation) {
+        function setSelectedAlbums(albumIds) {
+          for (const option of document.getElementById('device-albums').options) {
+            option.selected = albumIds.includes(option.value);
+          }
+        }
+
+        function setLayouts(layouts) {
+          for (const layout of ['monotych', 'diptych', 'triptych']) {
+            document.getElementById('device-layout-' + layout).checked = layouts[layout];
+          }
+        }
+
+        function editDevice(id, name, width, height, orientation, albums, layouts) {
           isEditMode = true;
           document.getElementById('modal-title').textContent = 'Edit Device';
           document.getElementById('device-id').value = id;
@@ -155,6 +265,8 @@ export const Devices: FC<DevicesProps> = ({ devices, error }) => {
           document.getElementById('device-width').value = width;
           document.getElementById('device-height').value = height;
           document.getElementById('device-orientation').value = orientation;
+          setSelectedAlbums(albums || []);
+          setLayouts(layouts);
           document.getElementById('device-modal').style.display = 'flex';
         }
 
@@ -179,6 +291,78 @@ export const Devices: FC<DevicesProps> = ({ devices, error }) => {
           }
         }
 
+        function showDeviceToken(name, token) {
+          prompt(\`Token for "\${name}". Copy it to the device now; it will not be shown again.\`, token);
+        }
+
+        async function rotateDeviceToken(id, name) {
+          if (!confirm(\`Issue a new token for "\${name}"? The device stops working until it is updated with the new token.\`)) {
+            return;
+          }
+
+          try {
+            const response = await fetch(\`/api/devices/\${id}/token\`, {
+              method: 'POST'
+            });
+
+            const result = await response.json();
+            if (!response.ok) {
+              throw new Error(result.error || 'Failed to issue token');
+            }
+
+            showDeviceToken(name, result.token);
+            window.location.reload();
+          } catch (error) {
+            alert('Error issuing token: ' + error.message);
+          }
+        }
+
+        async function revokeDeviceToken(id, name) {
+          if (!confirm(\`Revoke the token for "\${name}"? The device will be locked out until a new token is issued.\`)) {
+            return;
+          }
+
+          try {
+            const response = await fetch(\`/api/devices/\${id}/token\`, {
+              method: 'DELETE'
+            });
+
+            if (!response.ok) {
+              const error = await response.json();
+              throw new Error(error.error || 'Failed to revoke token');
+            }
+
+            window.location.reload();
+          } catch (error) {
+            alert('Error revoking token: ' + error.message);
+          }
+        }
+
+        async function sendDeviceCommand(id, name, select) {
+          const type = select.value;
+          select.value = '';
+          if (!type) {
+            return;
+          }
+
+          try {
+            const response = await fetch(\`/api/devices/\${id}/commands\`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ type })
+            });
+
+            const result = await response.json();
+            if (!response.ok) {
+              throw new Error(result.error || 'Failed to send command');
+            }
+
+            alert(\`Sent "\${type}" to "\${name}". The frame picks it up on its next check-in.\`);
+          } catch (error) {
+            alert('Error sending command: ' + error.message);
+          }
+        }
+
         document.getElementById('device-form').addEventListener('submit', async (e) => {
           e.preventDefault();
 
@@ -188,7 +372,15 @@ export const Devices: FC<DevicesProps> = ({ devices, error }) => {
           const height = parseInt(document.getElementById('device-height').value);
           const orientation = document.getElementById('device-orientation').value;
 
-          const data = { name, width, height, orientation };
+          const albums = Array.from(document.getElementById('device-albums').selectedOptions).map((option) => option.value);
+
+          const layouts = {
+            monotych: document.getElementById('device-layout-monotych').checked,
+            diptych: document.getElementById('device-layout-diptych').checked,
+            triptych: document.getElementById('device-layout-triptych').checked,
+          };
+
+          const data = { name, width, height, orientation, albums, layouts };
           
           try {
             let response;
@@ -208,11 +400,14 @@ export const Devices: FC<DevicesProps> = ({ devices, error }) => {
               });
             }
 
+            const result = await response.json();
             if (!response.ok) {
-              const error = await response.json();
-              throw new Error(error.error || 'Failed to save device');
+              throw new Error(result.error || 'Failed to save device');
             }
 
+            if (result.token) {
+              showDeviceToken(name, result.token);
+            }
             window.location.reload();
           } catch (error) {
             alert('Error saving device: ' + error.message);
@@ -377,6 +572,21 @@ export const Devices: FC<DevicesProps> = ({ devices, error }) => {
         table td:last-child {
           white-space: nowrap;
         }
+
+        .badge-online {
+          background: #dcfce7;
+          color: #166534;
+        }
+
+        .badge-offline {
+          background: #fee2e2;
+          color: #991b1b;
+        }
+
+        .badge-never {
+          background: #f3f4f6;
+          color: #6b7280;
+        }
       ` }} />
     </Layout>
   );
@@ -22,6 +22,7 @@ export const Layout: FC<LayoutProps> = ({ title, children }) => {
             <li><a href="/">Home</a></li>
             <li><a href="/devices">Devices</a></li>
             <li><a href="/images">Images</a></li>
+            <li><a href="/albums">Albums</a></li>
             <li><a href="/queues">Queues</a></li>
             <li><a href="/upload">Upload</a></li>
             <li><a href="/photos-picker">Google Photos</a></li>